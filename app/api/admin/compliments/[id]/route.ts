@@ -0,0 +1,68 @@
+// Admin corpus entry
+// GET reads, PATCH replaces the editable fields (omitted ones keep their
+// current value), DELETE removes the entry
+
+import { NextRequest, NextResponse } from 'next/server'
+import { type CorpusEntry, getCorpusStore } from '@/lib/corpus'
+import { checkDuplicateHash, validateCorpusInput } from '@/lib/corpus/validation'
+import { instrumentRoute } from '@/lib/instrumentRoute'
+import { adminError, authorizeAdmin, readJsonBody } from '../admin'
+
+type Context = { params: { id: string } }
+
+function notFound(id: string) {
+  return adminError(404, 'not_found', `No corpus entry with id ${id}`)
+}
+
+export const GET = instrumentRoute('admin_compliments_get', async (request: NextRequest, { params }: Context) => {
+  const denied = authorizeAdmin(request)
+  if (denied) return denied
+
+  const store = await getCorpusStore()
+  const entry = await store.get(params.id)
+  return entry ? NextResponse.json<CorpusEntry>(entry) : notFound(params.id)
+})
+
+export const PATCH = instrumentRoute('admin_compliments_update', async (request: NextRequest, { params }: Context, { log }) => {
+  const denied = authorizeAdmin(request)
+  if (denied) return denied
+
+  const body = await readJsonBody(request)
+  if (!body.ok) return body.response
+
+  const store = await getCorpusStore()
+  const existing = await store.get(params.id)
+  if (!existing) return notFound(params.id)
+
+  const patch = typeof body.value === 'object' && body.value !== null ? body.value : {}
+  const validation = validateCorpusInput({
+    text: existing.text,
+    tags: existing.tags,
+    rarity: existing.rarity,
+    locale: existing.locale,
+    ...patch,
+  })
+  if (!validation.ok) {
+    return adminError(400, 'invalid_body', 'Invalid compliment', validation.errors)
+  }
+
+  const duplicate = await checkDuplicateHash(store, validation.value.text, params.id)
+  if (duplicate) {
+    return adminError(409, 'duplicate_hash', duplicate.message, [duplicate])
+  }
+
+  const entry = await store.update(params.id, validation.value)
+  if (!entry) return notFound(params.id)
+  log.info('Updated corpus entry', { id: entry.id })
+  return NextResponse.json<CorpusEntry>(entry)
+})
+
+export const DELETE = instrumentRoute('admin_compliments_delete', async (request: NextRequest, { params }: Context, { log }) => {
+  const denied = authorizeAdmin(request)
+  if (denied) return denied
+
+  const store = await getCorpusStore()
+  if (!(await store.delete(params.id))) return notFound(params.id)
+  log.info('Deleted corpus entry', { id: params.id })
+  return new NextResponse(null, { status: 204 })
+})
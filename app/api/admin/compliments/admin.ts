@@ -0,0 +1,48 @@
+// Shared request handling for the admin corpus routes
+// Every route requires "Authorization: Bearer <ADMIN_TOKEN>"; with
+// ADMIN_TOKEN unset the admin API is disabled and answers 404
+
+import { NextRequest, NextResponse } from 'next/server'
+import type { FieldError, ValidationErrorCode } from '@/lib/complimentSchema'
+import { hasBearerToken } from '@/lib/bearerToken'
+
+export interface AdminErrorResponse {
+  error: ValidationErrorCode | 'unauthorized' | 'not_found'
+  message: string
+  fieldErrors?: FieldError[]
+}
+
+export function adminError(
+  status: number,
+  error: AdminErrorResponse['error'],
+  message: string,
+  fieldErrors?: FieldError[]
+) {
+  return NextResponse.json<AdminErrorResponse>({ error, message, fieldErrors }, { status })
+}
+
+// Returns the error response to send, or null when the caller is an admin
+export function authorizeAdmin(request: NextRequest): NextResponse<AdminErrorResponse> | null {
+  const token = process.env.ADMIN_TOKEN
+  if (!token) {
+    return adminError(404, 'not_found', 'Not found')
+  }
+
+  if (!hasBearerToken(request.headers, token)) {
+    return adminError(401, 'unauthorized', 'Missing or invalid admin token')
+  }
+  return null
+}
+
+export async function readJsonBody(
+  request: NextRequest
+): Promise<{ ok: true; value: unknown } | { ok: false; response: NextResponse<AdminErrorResponse> }> {
+  try {
+    return { ok: true, value: await request.json() }
+  } catch {
+    return {
+      ok: false,
+      response: adminError(400, 'invalid_json', 'Request body is not valid JSON'),
+    }
+  }
+}
@@ -0,0 +1,78 @@
+// Admin bulk import
+// Body: { items: [{ text, tags?, rarity? }, ...] }. Items are validated and
+// created one by one; failures are reported per item and do not stop the rest
+
+import { NextRequest, NextResponse } from 'next/server'
+import type { FieldError, ValidationErrorCode } from '@/lib/complimentSchema'
+import { getCorpusStore, hashCorpusText } from '@/lib/corpus'
+import {
+  MAX_IMPORT_SIZE,
+  checkDuplicateHash,
+  validateCorpusInput,
+} from '@/lib/corpus/validation'
+import { instrumentRoute } from '@/lib/instrumentRoute'
+import { adminError, authorizeAdmin, readJsonBody } from '../admin'
+
+type ImportItemResult =
+  | { index: number; ok: true; id: string }
+  | { index: number; ok: false; error: ValidationErrorCode; fieldErrors: FieldError[] }
+
+interface ImportResponse {
+  created: number
+  failed: number
+  results: ImportItemResult[]
+}
+
+export const POST = instrumentRoute('admin_compliments_import', async (request: NextRequest, _context: unknown, { log }) => {
+  const denied = authorizeAdmin(request)
+  if (denied) return denied
+
+  const body = await readJsonBody(request)
+  if (!body.ok) return body.response
+
+  const items = (body.value as { items?: unknown } | null)?.items
+  if (!Array.isArray(items)) {
+    return adminError(400, 'invalid_body', 'items must be an array', [
+      { field: 'items', code: 'invalid_type', message: 'items must be an array' },
+    ])
+  }
+  if (items.length > MAX_IMPORT_SIZE) {
+    return adminError(400, 'too_many_items', `items may contain at most ${MAX_IMPORT_SIZE} entries`)
+  }
+
+  const store = await getCorpusStore()
+  // Catches duplicates within the import itself before they reach the store
+  const seenInImport = new Set<string>()
+  const results: ImportItemResult[] = []
+
+  // Sequential so duplicate checks see earlier items of the same import
+  for (let index = 0; index < items.length; index++) {
+    const validation = validateCorpusInput(items[index])
+    if (!validation.ok) {
+      results.push({ index, ok: false, error: 'invalid_body', fieldErrors: validation.errors })
+      continue
+    }
+
+    const hash = await hashCorpusText(validation.value.text)
+    const duplicate = seenInImport.has(hash)
+      ? { field: 'text', code: 'duplicate_hash' as const, message: 'text duplicates an earlier item' }
+      : await checkDuplicateHash(store, validation.value.text)
+    if (duplicate) {
+      results.push({ index, ok: false, error: 'duplicate_hash', fieldErrors: [duplicate] })
+      continue
+    }
+
+    seenInImport.add(hash)
+    const entry = await store.create(validation.value)
+    results.push({ index, ok: true, id: entry.id })
+  }
+
+  const created = results.filter((result) => result.ok).length
+  log.info('Imported corpus entries', { created, failed: results.length - created })
+
+  return NextResponse.json<ImportResponse>({
+    created,
+    failed: results.length - created,
+    results,
+  })
+})
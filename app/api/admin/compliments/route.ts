@@ -0,0 +1,65 @@
+// Admin corpus collection
+// GET lists entries (?tag=, ?locale=, ?limit=, ?offset=); POST creates one entry
+
+import { NextRequest, NextResponse } from 'next/server'
+import { type CorpusEntry, getCorpusStore } from '@/lib/corpus'
+import { SUPPORTED_LOCALES, isLocale } from '@/lib/locales'
+import { checkDuplicateHash, validateCorpusInput } from '@/lib/corpus/validation'
+import { instrumentRoute } from '@/lib/instrumentRoute'
+import { adminError, authorizeAdmin, readJsonBody } from './admin'
+
+export const dynamic = 'force-dynamic'
+
+const MAX_PAGE_SIZE = 200
+
+// Non-negative integer query parameter, or the default when absent/invalid
+function readIntParam(value: string | null, fallback: number): number {
+  const parsed = value === null ? NaN : Number(value)
+  return Number.isInteger(parsed) && parsed >= 0 ? parsed : fallback
+}
+
+export const GET = instrumentRoute('admin_compliments_list', async (request: NextRequest) => {
+  const denied = authorizeAdmin(request)
+  if (denied) return denied
+
+  const params = request.nextUrl.searchParams
+  const limit = Math.min(readIntParam(params.get('limit'), 50), MAX_PAGE_SIZE)
+  const offset = readIntParam(params.get('offset'), 0)
+  const tag = params.get('tag') ?? undefined
+  const locale = params.get('locale') ?? undefined
+  if (locale !== undefined && !isLocale(locale)) {
+    return adminError(400, 'invalid_format', `locale must be one of ${SUPPORTED_LOCALES.join(', ')}`)
+  }
+
+  const store = await getCorpusStore()
+  const { items, total } = await store.list({ tag, locale, limit, offset })
+  return NextResponse.json<{ items: CorpusEntry[]; total: number; limit: number; offset: number }>({
+    items,
+    total,
+    limit,
+    offset,
+  })
+})
+
+export const POST = instrumentRoute('admin_compliments_create', async (request: NextRequest, _context: unknown, { log }) => {
+  const denied = authorizeAdmin(request)
+  if (denied) return denied
+
+  const body = await readJsonBody(request)
+  if (!body.ok) return body.response
+
+  const validation = validateCorpusInput(body.value)
+  if (!validation.ok) {
+    return adminError(400, 'invalid_body', 'Invalid compliment', validation.errors)
+  }
+
+  const store = await getCorpusStore()
+  const duplicate = await checkDuplicateHash(store, validation.value.text)
+  if (duplicate) {
+    return adminError(409, 'duplicate_hash', duplicate.message, [duplicate])
+  }
+
+  const entry = await store.create(validation.value)
+  log.info('Created corpus entry', { id: entry.id })
+  return NextResponse.json<CorpusEntry>(entry, { status: 201 })
+})
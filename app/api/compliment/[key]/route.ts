@@ -0,0 +1,44 @@
+// API endpoint for personal key lookup
+// Decodes the entropy inputs carried by the key and rebuilds the exact compliment
+// Runs on Node: curated keys are looked up in the corpus store, which an Edge
+// isolate does not share
+
+import { NextRequest, NextResponse } from 'next/server'
+import { decodeComplimentKey, rebuildCompliment } from '@/lib/complimentKey'
+import { instrumentRoute } from '@/lib/instrumentRoute'
+import {
+  type ComplimentResponse,
+  type ComplimentErrorResponse,
+  CURRENT_API_VERSION,
+} from '@/lib/complimentSchema'
+
+export const GET = instrumentRoute('compliment_lookup', async (
+  _request: NextRequest,
+  { params }: { params: { key: string } }
+) => {
+  // A curated key whose entry was deleted is as unknown as a malformed one
+  const payload = await decodeComplimentKey(params.key)
+  const compliment = payload && (await rebuildCompliment(payload))
+  if (!compliment) {
+    return NextResponse.json<ComplimentErrorResponse>(
+      {
+        apiVersion: CURRENT_API_VERSION,
+        error: 'invalid_key',
+        message: 'Unknown or malformed personal key',
+      },
+      { status: 404 }
+    )
+  }
+
+  return NextResponse.json<ComplimentResponse>({
+    apiVersion: CURRENT_API_VERSION,
+    id: compliment.id,
+    key: params.key,
+    text: compliment.text,
+    reflection: compliment.reflection,
+    rarity: compliment.rarity,
+    locale: compliment.locale,
+    tone: compliment.tone,
+    format: compliment.format,
+  })
+})
@@ -0,0 +1,89 @@
+// Developer endpoint: explains how a personal key's compliment was composed
+// Returns the normalized signals, the style vector, the rarity roll and, per
+// slot, every weighted draw with its full distribution. Disabled (404) in
+// production builds
+// Runs on the Edge: it reads no store, and declaring it here makes `next build`
+// fail if the shared generation code stops being Edge-compatible
+
+import { NextRequest, NextResponse } from 'next/server'
+import { decodeComplimentKey, explainComplimentKey } from '@/lib/complimentKey'
+import { instrumentRoute } from '@/lib/instrumentRoute'
+import {
+  type ComplimentErrorResponse,
+  CURRENT_API_VERSION,
+  validationErrorResponse,
+} from '@/lib/complimentSchema'
+
+export const runtime = 'edge'
+
+export const POST = instrumentRoute('compliment_explain', async (request: NextRequest) => {
+  if (process.env.NODE_ENV === 'production') {
+    return NextResponse.json<ComplimentErrorResponse>(
+      { apiVersion: CURRENT_API_VERSION, error: 'not_found', message: 'Not found' },
+      { status: 404 }
+    )
+  }
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json<ComplimentErrorResponse>(
+      validationErrorResponse([
+        { field: '', code: 'invalid_json', message: 'Request body is not valid JSON' },
+      ]),
+      { status: 400 }
+    )
+  }
+
+  const key = typeof body === 'object' && body !== null ? (body as { key?: unknown }).key : undefined
+  if (typeof key !== 'string') {
+    return NextResponse.json<ComplimentErrorResponse>(
+      validationErrorResponse([
+        {
+          field: 'key',
+          code: key === undefined ? 'required' : 'invalid_type',
+          message: 'key must be a personal key string',
+        },
+      ]),
+      { status: 400 }
+    )
+  }
+
+  const payload = await decodeComplimentKey(key)
+  if (!payload) {
+    return NextResponse.json<ComplimentErrorResponse>(
+      {
+        apiVersion: CURRENT_API_VERSION,
+        error: 'invalid_key',
+        message: 'Unknown or malformed personal key',
+      },
+      { status: 404 }
+    )
+  }
+
+  // The trace follows the compliment grammar; letters are composed differently
+  // and curated picks not at all
+  const { text } = payload
+  if (text.source !== 'grammar' || text.format !== 'compliment') {
+    return NextResponse.json<ComplimentErrorResponse>(
+      validationErrorResponse([
+        {
+          field: 'key',
+          code: 'invalid_format',
+          message: 'Only generated compliment keys can be explained, not letters or curated picks',
+        },
+      ]),
+      { status: 400 }
+    )
+  }
+
+  return NextResponse.json({
+    apiVersion: CURRENT_API_VERSION,
+    key,
+    locale: payload.locale,
+    tone: text.tone,
+    signals: payload.signals,
+    ...(await explainComplimentKey(payload)),
+  })
+})
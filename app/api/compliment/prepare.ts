@@ -0,0 +1,116 @@
+// Shared request handling for the compliment routes (JSON and streaming)
+// Rate limits, parses and validates; returns either the validated request
+// or the error response to send back as-is
+
+import { NextRequest, NextResponse } from 'next/server'
+import { checkRateLimit, getClientIp } from '@/lib/rateLimit'
+import {
+  type ApiVersion,
+  type ComplimentErrorResponse,
+  type ValidatedComplimentRequest,
+  CURRENT_API_VERSION,
+  SEED_NOT_ENABLED_ERROR,
+  validateComplimentRequest,
+  validationErrorResponse,
+} from '@/lib/complimentSchema'
+import { isSeededModeEnabled } from '@/lib/determinism'
+import { type Locale, negotiateLocale } from '@/lib/locales'
+
+// Validated request with the locale resolved
+export interface PreparedComplimentRequest extends ValidatedComplimentRequest {
+  locale: Locale
+}
+
+// 429 response with Retry-After (whole seconds); shared with the batch route
+export function rateLimitedResponse(retryAfterMs: number, apiVersion: ApiVersion) {
+  const retryAfterSeconds = Number.isFinite(retryAfterMs)
+    ? Math.max(1, Math.ceil(retryAfterMs / 1000))
+    : 3600
+  return NextResponse.json<ComplimentErrorResponse>(
+    {
+      apiVersion,
+      error: 'rate_limited',
+      message: 'Too many requests',
+      retryAfterSeconds,
+    },
+    { status: 429, headers: { 'Retry-After': String(retryAfterSeconds) } }
+  )
+}
+
+// 409 response when no unissued compliment is left for the user
+export function exhaustedResponse(apiVersion: ApiVersion) {
+  return NextResponse.json<ComplimentErrorResponse>(
+    {
+      apiVersion,
+      error: 'exhausted',
+      message: 'No unissued compliment could be found for this user',
+    },
+    { status: 409 }
+  )
+}
+
+export async function prepareComplimentRequest(
+  request: NextRequest
+): Promise<
+  | { ok: true; value: PreparedComplimentRequest }
+  | { ok: false; response: NextResponse<ComplimentErrorResponse> }
+> {
+  // Per-IP limit runs before any parsing or hashing work
+  const ipDecision = await checkRateLimit('ip', getClientIp(request.headers, request.ip))
+  if (!ipDecision.allowed) {
+    return {
+      ok: false,
+      response: rateLimitedResponse(ipDecision.retryAfterMs, CURRENT_API_VERSION),
+    }
+  }
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return {
+      ok: false,
+      response: NextResponse.json<ComplimentErrorResponse>(
+        validationErrorResponse([
+          { field: '', code: 'invalid_json', message: 'Request body is not valid JSON' },
+        ]),
+        { status: 400 }
+      ),
+    }
+  }
+
+  // Validate inputs (type checks first, then clamping)
+  const validation = validateComplimentRequest(body)
+  if (!validation.ok) {
+    return {
+      ok: false,
+      response: NextResponse.json<ComplimentErrorResponse>(
+        validationErrorResponse(validation.errors),
+        { status: 400 }
+      ),
+    }
+  }
+  if (validation.value.seed !== undefined && !isSeededModeEnabled()) {
+    return {
+      ok: false,
+      response: NextResponse.json<ComplimentErrorResponse>(
+        validationErrorResponse([SEED_NOT_ENABLED_ERROR], validation.value.apiVersion),
+        { status: 400 }
+      ),
+    }
+  }
+
+  const userDecision = await checkRateLimit('user', validation.value.userKey)
+  if (!userDecision.allowed) {
+    return {
+      ok: false,
+      response: rateLimitedResponse(userDecision.retryAfterMs, validation.value.apiVersion),
+    }
+  }
+
+  const locale = negotiateLocale(
+    validation.value.requestedLocale,
+    request.headers.get('accept-language')
+  )
+  return { ok: true, value: { ...validation.value, locale } }
+}
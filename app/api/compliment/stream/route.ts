@@ -0,0 +1,131 @@
+// Streaming variant of the compliment endpoint (Server-Sent Events)
+// Same request body and rules as POST /api/compliment; the compliment is
+// emitted one composition step at a time so the client can reveal it as
+// the generator built it:
+//   rarity                          -> { rarity } (first, so the reveal can be styled)
+//   opener, trait, evidence, closer -> { text }
+//   greeting, signals, signoff      -> { text } (letters only; see lib/formats)
+//   reflection                      -> { text }
+//   done                            -> full ComplimentResponse
+// Curated picks and degraded mode send only rarity, reflection and done
+
+import { NextRequest } from 'next/server'
+import { type ComplimentFragment } from '@/lib/complimentGenerator'
+import { issueUniqueCompliment, issueDegradedCompliment } from '@/lib/issueCompliment'
+import { getIssuanceStore } from '@/lib/issuance'
+import { AvoidSet } from '@/lib/avoidSet'
+import { getCuratedCompliments } from '@/lib/corpus'
+import { encodeSseEvent } from '@/lib/sse'
+import { instrumentRoute } from '@/lib/instrumentRoute'
+import { metrics } from '@/lib/metrics'
+import { type ComplimentResponse } from '@/lib/complimentSchema'
+import { prepareComplimentRequest, exhaustedResponse } from '../prepare'
+
+// Default pause between fragments; ?pace=<ms> overrides (0 for reduced motion)
+const DEFAULT_PACE_MS = 450
+const MAX_PACE_MS = 2000
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+export const POST = instrumentRoute('compliment_stream', async (request: NextRequest, _context: unknown, { log }) => {
+  const prepared = await prepareComplimentRequest(request)
+  if (!prepared.ok) {
+    return prepared.response
+  }
+
+  const requestedPace = Number(request.nextUrl.searchParams.get('pace') ?? DEFAULT_PACE_MS)
+  const pace = Number.isFinite(requestedPace)
+    ? Math.max(0, Math.min(requestedPace, MAX_PACE_MS))
+    : DEFAULT_PACE_MS
+
+  const { apiVersion, signals, userKey, env, avoidHashes, avoidFilter, seed, locale, tone, format } = prepared.value
+
+  let fragments: ComplimentFragment[]
+  let body: ComplimentResponse
+  // Drawn next to the grammar, and the whole pool in degraded mode
+  const curated = await getCuratedCompliments(locale)
+  try {
+    const store = await getIssuanceStore()
+    const compliment = await issueUniqueCompliment(
+      { signals, userKey, env, seed, locale, tone, format, curated },
+      new AvoidSet(avoidHashes, avoidFilter),
+      store
+    )
+    if (!compliment) {
+      return exhaustedResponse(apiVersion)
+    }
+
+    log.info('Generated compliment', {
+      hash: compliment.id.substring(0, 16),
+      attempts: compliment.attempts,
+      seeded: seed !== undefined,
+      locale,
+      tone,
+      format,
+    })
+
+    fragments = compliment.fragments
+    body = {
+      apiVersion,
+      id: compliment.id,
+      key: compliment.key,
+      text: compliment.text,
+      reflection: compliment.reflection,
+      rarity: compliment.rarity,
+      locale,
+      tone,
+      format,
+    }
+  } catch (error) {
+    log.error('Error generating compliment', { error })
+    metrics.fallbackResponses.inc()
+    // Degraded mode: curated text has no composition steps, so it arrives whole in `done`
+    const fallback = await issueDegradedCompliment(
+      { signals, userKey, env, seed, locale, tone, format },
+      new AvoidSet(avoidHashes, avoidFilter),
+      curated
+    )
+    fragments = []
+    body = {
+      apiVersion,
+      id: fallback.id,
+      key: fallback.key,
+      text: fallback.text,
+      reflection: fallback.reflection,
+      rarity: fallback.rarity,
+      locale,
+      degraded: true,
+    }
+  }
+
+  const encoder = new TextEncoder()
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) =>
+        controller.enqueue(encoder.encode(encodeSseEvent(event, data)))
+
+      send('rarity', { rarity: body.rarity })
+
+      for (const [i, fragment] of fragments.entries()) {
+        if (i > 0 && pace > 0) await sleep(pace)
+        send(fragment.slot, { text: fragment.text })
+      }
+
+      if (fragments.length > 0 && pace > 0) await sleep(pace)
+      send('reflection', { text: body.reflection })
+
+      send('done', body)
+      controller.close()
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  })
+})
@@ -0,0 +1,189 @@
+// API endpoint for batch compliment generation
+// Issues one compliment per signal profile, unique within the batch and
+// recorded in the issuance store, under the same concurrency limits used
+// for pooled fetching. Rate limited like the single routes, plus one batch
+// token and one user token per item
+
+import { NextRequest, NextResponse } from 'next/server'
+import { runPool } from '@/lib/fetchPool'
+import { issueUniqueCompliment } from '@/lib/issueCompliment'
+import { getCuratedCompliments } from '@/lib/corpus'
+import { getIssuanceStore } from '@/lib/issuance'
+import { AvoidSet } from '@/lib/avoidSet'
+import { instrumentRoute } from '@/lib/instrumentRoute'
+import {
+  type ApiVersion,
+  type BatchComplimentResponse,
+  type BatchItemResult,
+  type ComplimentErrorResponse,
+  CURRENT_API_VERSION,
+  SEED_NOT_ENABLED_ERROR,
+  validateBatchRequest,
+  validationErrorResponse,
+} from '@/lib/complimentSchema'
+import { negotiateLocale } from '@/lib/locales'
+import { checkRateLimit, getClientIp, getRateLimitConfig, refundRateLimit } from '@/lib/rateLimit'
+import { isSeededModeEnabled } from '@/lib/determinism'
+import { rateLimitedResponse } from '../../compliment/prepare'
+
+// Max items generated concurrently
+const BATCH_CONCURRENCY = 8
+
+// 400 for a batch one of its buckets could never pay for, however long the
+// client waited, so it is not told to retry
+function overCapacityResponse(message: string, apiVersion: ApiVersion): NextResponse {
+  return NextResponse.json<ComplimentErrorResponse>(
+    validationErrorResponse([{ field: 'items', code: 'too_large', message }], apiVersion),
+    { status: 400 }
+  )
+}
+
+export const POST = instrumentRoute('compliments_batch', async (request: NextRequest, _context: unknown, { log }) => {
+  // The request's IP token is taken before any parsing, like the single routes
+  const clientIp = getClientIp(request.headers, request.ip)
+  const ipDecision = await checkRateLimit('ip', clientIp)
+  if (!ipDecision.allowed) {
+    return rateLimitedResponse(ipDecision.retryAfterMs, CURRENT_API_VERSION)
+  }
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json<ComplimentErrorResponse>(
+      validationErrorResponse([
+        { field: '', code: 'invalid_json', message: 'Request body is not valid JSON' },
+      ]),
+      { status: 400 }
+    )
+  }
+
+  const validation = validateBatchRequest(body)
+  if (!validation.ok) {
+    return NextResponse.json<ComplimentErrorResponse>(
+      validationErrorResponse(validation.errors),
+      { status: 400 }
+    )
+  }
+
+  const { apiVersion, items } = validation.value
+
+  // Then one batch token per item, and one user token per valid item
+  const itemsPerUser = new Map<string, number>()
+  items.forEach((item) => {
+    if (item.ok) itemsPerUser.set(item.value.userKey, (itemsPerUser.get(item.value.userKey) ?? 0) + 1)
+  })
+  const rateLimits = getRateLimitConfig()
+  if (rateLimits.enabled) {
+    if (items.length > rateLimits.batch.capacity) {
+      return overCapacityResponse(
+        `A batch may hold at most ${rateLimits.batch.capacity} items (RATE_LIMIT_BATCH_CAPACITY)`,
+        apiVersion
+      )
+    }
+    if (Array.from(itemsPerUser.values()).some((count) => count > rateLimits.user.capacity)) {
+      return overCapacityResponse(
+        `A batch may hold at most ${rateLimits.user.capacity} items per userKey (RATE_LIMIT_USER_CAPACITY)`,
+        apiVersion
+      )
+    }
+  }
+
+  const batchDecision = await checkRateLimit('batch', clientIp, items.length)
+  if (!batchDecision.allowed) {
+    return rateLimitedResponse(batchDecision.retryAfterMs, apiVersion)
+  }
+  // All or nothing: when one user is limited, the tokens already taken go back
+  const charged: [userKey: string, count: number][] = []
+  for (const [userKey, count] of Array.from(itemsPerUser)) {
+    const userDecision = await checkRateLimit('user', userKey, count)
+    if (!userDecision.allowed) {
+      await refundRateLimit('batch', clientIp, items.length)
+      await Promise.all(
+        charged.map(([chargedKey, chargedCount]) => refundRateLimit('user', chargedKey, chargedCount))
+      )
+      return rateLimitedResponse(userDecision.retryAfterMs, apiVersion)
+    }
+    charged.push([userKey, count])
+  }
+
+  // Hashes claimed so far in this batch. Every item's AvoidSet reads it live,
+  // so items running side by side in the pool redraw instead of colliding
+  const claimedInBatch = new Set<string>()
+
+  const store = await getIssuanceStore()
+
+  const pooled = await runPool(items, BATCH_CONCURRENCY, async (item, index): Promise<BatchItemResult> => {
+    if (!item.ok) {
+      return {
+        index,
+        ok: false,
+        error: 'invalid_body',
+        message: 'Invalid batch item',
+        fieldErrors: item.errors,
+      }
+    }
+
+    const { signals, userKey, env, avoidHashes, avoidFilter, seed, requestedLocale, tone, format } = item.value
+    if (seed !== undefined && !isSeededModeEnabled()) {
+      return {
+        index,
+        ok: false,
+        error: 'invalid_body',
+        message: 'Invalid batch item',
+        fieldErrors: [SEED_NOT_ENABLED_ERROR],
+      }
+    }
+    const locale = negotiateLocale(requestedLocale, request.headers.get('accept-language'))
+    const compliment = await issueUniqueCompliment(
+      { signals, userKey, env, seed, locale, tone, format, curated: await getCuratedCompliments(locale) },
+      new AvoidSet(avoidHashes, avoidFilter, claimedInBatch),
+      store
+    )
+
+    if (!compliment) {
+      return {
+        index,
+        ok: false,
+        error: 'exhausted',
+        message: 'No compliment could be found that was not issued to this user or earlier in this batch',
+      }
+    }
+
+    return {
+      index,
+      ok: true,
+      compliment: {
+        id: compliment.id,
+        key: compliment.key,
+        text: compliment.text,
+        reflection: compliment.reflection,
+        rarity: compliment.rarity,
+        locale,
+        tone,
+        format,
+      },
+    }
+  })
+
+  const results = pooled.map((result, index): BatchItemResult => {
+    if (result.ok) return result.value
+    log.error('Error generating batch compliment', { index, error: result.error })
+    return {
+      index,
+      ok: false,
+      error: 'internal_error',
+      message: 'Failed to generate compliment',
+    }
+  })
+
+  const succeeded = results.filter((r) => r.ok).length
+  log.info('Generated batch', { items: results.length, succeeded })
+
+  return NextResponse.json<BatchComplimentResponse>({
+    apiVersion,
+    succeeded,
+    failed: results.length - succeeded,
+    results,
+  })
+})
@@ -0,0 +1,25 @@
+// Prometheus scrape endpoint
+// Set METRICS_TOKEN to require "Authorization: Bearer <token>". Production
+// builds without it answer 404: route names, status counts and latencies
+// are not for the public
+
+import { NextRequest, NextResponse } from 'next/server'
+import { renderMetrics } from '@/lib/metrics'
+import { hasBearerToken } from '@/lib/bearerToken'
+
+// Always render live values
+export const dynamic = 'force-dynamic'
+
+export async function GET(request: NextRequest) {
+  const token = process.env.METRICS_TOKEN
+  if (!token && process.env.NODE_ENV === 'production') {
+    return new NextResponse('Not found\n', { status: 404 })
+  }
+  if (token && !hasBearerToken(request.headers, token)) {
+    return new NextResponse('Unauthorized\n', { status: 401 })
+  }
+
+  return new NextResponse(renderMetrics(), {
+    headers: { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' },
+  })
+}
@@ -0,0 +1,52 @@
+// Personal key page
+// Rebuilds a previously issued compliment from its key (server-rendered)
+
+import Link from 'next/link'
+import { notFound } from 'next/navigation'
+import { decodeComplimentKey, rebuildCompliment } from '@/lib/complimentKey'
+import RarityBadge, { RARITY_HEADING_CLASSES } from '@/components/RarityBadge'
+import { getMessages } from '@/lib/locales'
+
+export default async function ComplimentByKey({ params }: { params: { key: string } }) {
+  const payload = await decodeComplimentKey(params.key)
+  const compliment = payload && (await rebuildCompliment(payload))
+  if (!compliment) {
+    notFound()
+  }
+
+  return (
+    <main className="relative w-full h-screen overflow-hidden bg-[#0a0a0a]">
+      <div className="flex flex-col items-center justify-center h-full px-8" lang={compliment.locale}>
+        <div className="max-w-3xl text-center space-y-8">
+          <RarityBadge rarity={compliment.rarity} locale={compliment.locale} />
+
+          {compliment.format === 'letter' ? (
+            <article
+              aria-label={getMessages(compliment.locale).letter.label}
+              className={`max-h-[60vh] overflow-y-auto text-left text-lg md:text-xl leading-relaxed whitespace-pre-line px-6 py-8 rounded-2xl border border-white/10 bg-white/5 ${RARITY_HEADING_CLASSES[compliment.rarity]}`}
+            >
+              {compliment.text}
+            </article>
+          ) : (
+            <h1
+              className={`text-4xl md:text-6xl leading-tight whitespace-pre-line ${RARITY_HEADING_CLASSES[compliment.rarity]}`}
+            >
+              {compliment.text}
+            </h1>
+          )}
+
+          <p className="text-base text-white/50 font-light italic mt-4">
+            {compliment.reflection}
+          </p>
+
+          <Link
+            href="/"
+            className="inline-block mt-16 px-8 py-3 bg-white/10 hover:bg-white/20 text-white rounded-full border border-white/20 transition-all duration-300 text-sm font-medium backdrop-blur-sm"
+          >
+            {getMessages(compliment.locale).ui.openYourOwn}
+          </Link>
+        </div>
+      </div>
+    </main>
+  )
+}
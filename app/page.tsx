@@ -3,26 +3,44 @@
 // Main page component
 // Orchestrates the loading experience, API call, and compliment reveal
 
-import { useState, useCallback, useEffect } from 'react'
+import { useState, useCallback, useEffect, useRef } from 'react'
 import LoadingGift from '@/components/LoadingGift'
+import RarityBadge, { RARITY_HEADING_CLASSES } from '@/components/RarityBadge'
+import TonePicker from '@/components/TonePicker'
 import {
   getUserKey,
-  getSeenComplimentHashes,
-  addSeenComplimentHash,
-  getAvoidHashes,
+  getTone,
+  setTone as storeTone,
+  type UserSignals,
 } from '@/lib/entropy'
-import { generateBehaviorReflection } from '@/lib/behaviorReflection'
+import { addSeenComplimentHash, getAvoidFilter } from '@/lib/seenHashes'
+import { readSseStream } from '@/lib/sse'
+import {
+  type ComplimentRequest,
+  type ComplimentResponse,
+  CURRENT_API_VERSION,
+} from '@/lib/complimentSchema'
+import type { Rarity } from '@/lib/rarity'
+import {
+  type Locale,
+  DEFAULT_LOCALE,
+  formatMessage,
+  getMessages,
+  negotiateLocale,
+} from '@/lib/locales'
+import { type Tone, DEFAULT_TONE } from '@/lib/tones'
+import { type Format, DEFAULT_FORMAT, isFormat } from '@/lib/formats'
 
 interface Compliment {
   id: string
+  key?: string
   text: string
+  fragments: string[] // streamed composition steps, joined they equal text
+  degraded?: boolean // served from the curated fallback list
   reflection?: string
-}
-
-interface UserSignals {
-  pixelsMoved: number
-  clicks: number
-  idleMs: number
+  rarity?: Rarity // arrives before the first fragment
+  tone?: Tone // absent for degraded and offline compliments
+  format?: Format // letters render as a scrollable note instead of the heading
 }
 
 export default function Home() {
@@ -30,19 +48,62 @@ export default function Home() {
   const [compliment, setCompliment] = useState<Compliment | null>(null)
   const [error, setError] = useState<string | null>(null)
   const [reducedMotion, setReducedMotion] = useState(false)
+  const reducedMotionRef = useRef(false) // read in fetchCompliment without changing its identity
   const [loadingKey, setLoadingKey] = useState(0) // Force remount on retry
   const [userSignals, setUserSignals] = useState<UserSignals | null>(null)
   const [showCompliment, setShowCompliment] = useState(false) // Delayed compliment reveal
   const [showStats, setShowStats] = useState(false) // Statistics display
   const [cursorPos, setCursorPos] = useState({ x: 0, y: 0 })
+  const [locale, setLocale] = useState<Locale>(DEFAULT_LOCALE)
+  const localeRef = useRef<Locale>(DEFAULT_LOCALE) // read in fetchCompliment without changing its identity
+  const [tone, setTone] = useState<Tone>(DEFAULT_TONE)
+  const toneRef = useRef<Tone>(DEFAULT_TONE) // read in fetchCompliment without changing its identity
+  const formatRef = useRef<Format>(DEFAULT_FORMAT) // from ?format=, read in fetchCompliment
+
+  const messages = getMessages(locale)
+  const ui = messages.ui
+
+  // Pick the UI locale from the browser's languages; sent with every request
+  // so the compliment and the surrounding UI agree
+  useEffect(() => {
+    const negotiated = negotiateLocale(undefined, navigator.languages.join(','))
+    setLocale(negotiated)
+    localeRef.current = negotiated
+  }, [])
+
+  useEffect(() => {
+    document.documentElement.lang = locale
+  }, [locale])
+
+  // Restore the remembered tone
+  useEffect(() => {
+    const stored = getTone()
+    setTone(stored)
+    toneRef.current = stored
+  }, [])
+
+  // Letters are requested with ?format=letter, e.g. a link shared for an occasion
+  useEffect(() => {
+    const requested = new URLSearchParams(window.location.search).get('format')
+    if (isFormat(requested)) formatRef.current = requested
+  }, [])
+
+  // Takes effect on the next request
+  const handleToneChange = useCallback((next: Tone) => {
+    setTone(next)
+    toneRef.current = next
+    storeTone(next)
+  }, [])
 
   // Check for reduced motion preference
   useEffect(() => {
     const mediaQuery = window.matchMedia('(prefers-reduced-motion: reduce)')
     setReducedMotion(mediaQuery.matches)
+    reducedMotionRef.current = mediaQuery.matches
 
     const handleChange = (e: MediaQueryListEvent) => {
       setReducedMotion(e.matches)
+      reducedMotionRef.current = e.matches
     }
 
     mediaQuery.addEventListener('change', handleChange)
@@ -50,13 +111,13 @@ export default function Home() {
   }, [])
 
   const fetchCompliment = useCallback(
-    async (signals: { pixelsMoved: number; clicks: number; idleMs: number }) => {
+    async (signals: UserSignals) => {
       // Store signals for later display
       setUserSignals(signals)
 
       try {
         const userKey = getUserKey()
-        const avoidHashes = getAvoidHashes(200)
+        const avoidFilter = await getAvoidFilter()
         const env = {
           w: window.innerWidth,
           h: window.innerHeight,
@@ -64,37 +125,113 @@ export default function Home() {
           tzOffset: new Date().getTimezoneOffset(),
         }
 
-        const requestBody = {
+        const requestBody: ComplimentRequest = {
+          apiVersion: CURRENT_API_VERSION,
           pixelsMoved: signals.pixelsMoved,
           clicks: signals.clicks,
           idleMs: signals.idleMs,
           userKey,
           env,
-          avoidHashes,
+          avoidFilter,
+          locale: localeRef.current,
+          tone: toneRef.current,
+          format: formatRef.current,
         }
 
-        const response = await fetch('/api/compliment', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify(requestBody),
-        })
+        // Streaming endpoint: fragments arrive in composition order
+        const response = await fetch(
+          `/api/compliment/stream${reducedMotionRef.current ? '?pace=0' : ''}`,
+          {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+            },
+            body: JSON.stringify(requestBody),
+          }
+        )
 
-        if (!response.ok) {
-          throw new Error(`Failed to fetch compliment: ${response.status}`)
+        // Rate limited: show a friendly pause instead of a stand-in compliment
+        if (response.status === 429) {
+          const retryAfter = Number(response.headers.get('Retry-After')) || 60
+          const messages = getMessages(localeRef.current).ui
+          setError(
+            retryAfter > 60
+              ? formatMessage(messages.rateLimitedMinutes, { n: Math.ceil(retryAfter / 60) })
+              : formatMessage(messages.rateLimitedSeconds, { n: retryAfter })
+          )
+          return
         }
 
-        const data = await response.json()
+        if (!response.ok || !response.body) {
+          throw new Error(`Failed to fetch compliment: ${response.status}`)
+        }
 
-        // Show compliment immediately
-        setCompliment({
-          id: data.id,
-          text: data.text,
-          reflection: data.reflection || generateBehaviorReflection(signals), // Use API reflection or fallback
+        let completed = false
+        await readSseStream(response.body, ({ event, data }) => {
+          switch (event) {
+            case 'rarity': {
+              const { rarity } = JSON.parse(data) as { rarity: Rarity }
+              setCompliment((prev) => ({
+                id: prev?.id ?? '',
+                text: prev?.text ?? '',
+                fragments: prev?.fragments ?? [],
+                rarity,
+                format: formatRef.current, // confirmed by `done`
+              }))
+              break
+            }
+            case 'greeting':
+            case 'opener':
+            case 'trait':
+            case 'evidence':
+            case 'signals':
+            case 'closer':
+            case 'signoff': {
+              const { text } = JSON.parse(data) as { text: string }
+              setCompliment((prev) => ({
+                id: prev?.id ?? '',
+                text: (prev?.text ?? '') + text,
+                fragments: [...(prev?.fragments ?? []), text],
+                rarity: prev?.rarity,
+                format: prev?.format,
+              }))
+              // Reveal as soon as the first fragment lands
+              setShowCompliment(true)
+              setIsLoading(false)
+              break
+            }
+            case 'reflection': {
+              const { text } = JSON.parse(data) as { text: string }
+              setCompliment((prev) => prev && { ...prev, reflection: text })
+              break
+            }
+            case 'done': {
+              const done: ComplimentResponse = JSON.parse(data)
+              setCompliment((prev) => ({
+                id: done.id,
+                key: done.key,
+                text: done.text,
+                // Curated and degraded compliments send no fragments
+                fragments: prev?.fragments.length ? prev.fragments : [done.text],
+                reflection: done.reflection,
+                degraded: done.degraded,
+                rarity: done.rarity,
+                tone: done.tone,
+                format: done.format ?? DEFAULT_FORMAT, // degraded responses are compliments
+              }))
+              addSeenComplimentHash(done.id)
+              setLocale(done.locale)
+              setShowCompliment(true)
+              setIsLoading(false)
+              completed = true
+              break
+            }
+          }
         })
-        addSeenComplimentHash(data.id)
-        setShowCompliment(true)
+
+        if (!completed) {
+          throw new Error('Compliment stream ended early')
+        }
         setError(null)
 
         // Show stats after compliment appears
@@ -103,9 +240,11 @@ export default function Home() {
         }, 1500)
       } catch (err) {
         console.error('Error fetching compliment:', err)
+        const fallbackText = getMessages(localeRef.current).ui.offlineCompliment
         setCompliment({
           id: 'fallback',
-          text: 'You are doing great, and your persistence is admirable.',
+          text: fallbackText,
+          fragments: [fallbackText],
         })
         setShowCompliment(true)
       } finally {
@@ -125,6 +264,13 @@ export default function Home() {
     setLoadingKey((prev) => prev + 1) // Force remount of LoadingGift to reset signals
   }, [])
 
+  // The compliment as it has streamed in, one span per composition step
+  const revealedFragments = compliment?.fragments.map((fragment, i) => (
+    <span key={i} className={reducedMotion ? undefined : 'fragment-reveal'}>
+      {fragment}
+    </span>
+  ))
+
   // Cursor follow effect
   useEffect(() => {
     const handleMouseMove = (e: MouseEvent) => {
@@ -172,6 +318,21 @@ export default function Home() {
         />
       ) : (
         <div className="flex flex-col items-center justify-center h-full px-8">
+          {/* Friendly error (e.g. rate limited) */}
+          {error && !compliment && (
+            <div className="max-w-2xl text-center space-y-8">
+              <p className="text-2xl md:text-3xl font-light text-white/80 leading-snug">
+                {error}
+              </p>
+              <button
+                onClick={handleTryAgain}
+                className="mt-8 px-8 py-3 bg-white/10 hover:bg-white/20 text-white rounded-full border border-white/20 transition-all duration-300 text-sm font-medium backdrop-blur-sm"
+              >
+                {ui.tryAgain}
+              </button>
+            </div>
+          )}
+
           {/* Compliment reveal */}
           {showCompliment && compliment && (
             <div
@@ -181,20 +342,38 @@ export default function Home() {
                 transition: 'opacity 1s ease-in',
               }}
             >
-              <h1 className="text-4xl md:text-6xl font-light text-white leading-tight">
-                {compliment.text}
-              </h1>
+              <RarityBadge rarity={compliment.rarity ?? 1} locale={locale} />
+
+              {compliment.format === 'letter' ? (
+                <article
+                  aria-label={messages.letter.label}
+                  className={`max-h-[60vh] overflow-y-auto text-left text-lg md:text-xl leading-relaxed whitespace-pre-line px-6 py-8 rounded-2xl border border-white/10 bg-white/5 ${RARITY_HEADING_CLASSES[compliment.rarity ?? 1]}`}
+                >
+                  {revealedFragments}
+                </article>
+              ) : (
+                <h1
+                  className={`text-4xl md:text-6xl leading-tight whitespace-pre-line ${RARITY_HEADING_CLASSES[compliment.rarity ?? 1]}`}
+                >
+                  {revealedFragments}
+                </h1>
+              )}
 
               {/* Personal Key */}
-              <div className="mt-8 pt-6 border-t border-white/20">
-                <p className="text-sm text-white/50 mb-2">Your personal key</p>
-                <p className="text-lg font-mono text-white/80 tracking-wider break-all px-4">
-                  {compliment.id}
-                </p>
-                <p className="text-xs text-white/40 mt-2 italic">
-                  This is your personal key now.
-                </p>
-              </div>
+              {compliment.key && (
+                <div className="mt-8 pt-6 border-t border-white/20">
+                  <p className="text-sm text-white/50 mb-2">{ui.personalKey}</p>
+                  <a
+                    href={`/c/${compliment.key}`}
+                    className="block text-lg font-mono text-white/80 hover:text-white tracking-wider break-all px-4"
+                  >
+                    {compliment.key}
+                  </a>
+                  <p className="text-xs text-white/40 mt-2 italic">
+                    {ui.personalKeyNote}
+                  </p>
+                </div>
+              )}
 
               {/* Behavior reflection */}
               {compliment.reflection && (
@@ -206,14 +385,14 @@ export default function Home() {
               {/* Statistics display - bigger and more prominent */}
               {showStats && userSignals && (
                 <div className="mt-16 pt-12 border-t border-white/20">
-                  <h2 className="text-2xl font-light text-white mb-8">Your journey</h2>
+                  <h2 className="text-2xl font-light text-white mb-8">{ui.yourJourney}</h2>
                   <div className="grid grid-cols-3 gap-12">
                     <div className="text-center">
                       <div className="text-4xl md:text-5xl font-mono text-white mb-2">
-                        {Math.round(userSignals.pixelsMoved).toLocaleString()}
+                        {Math.round(userSignals.pixelsMoved).toLocaleString(locale)}
                       </div>
                       <div className="text-lg text-white/60 uppercase tracking-wider">
-                        Pixels
+                        {ui.pixels}
                       </div>
                     </div>
                     <div className="text-center">
@@ -221,7 +400,7 @@ export default function Home() {
                         {userSignals.clicks}
                       </div>
                       <div className="text-lg text-white/60 uppercase tracking-wider">
-                        Clicks
+                        {ui.clicks}
                       </div>
                     </div>
                     <div className="text-center">
@@ -229,19 +408,33 @@ export default function Home() {
                         {Math.round(userSignals.idleMs / 1000)}s
                       </div>
                       <div className="text-lg text-white/60 uppercase tracking-wider">
-                        Time
+                        {ui.time}
                       </div>
                     </div>
                   </div>
                 </div>
               )}
 
+              <TonePicker
+                tone={tone}
+                shownTone={compliment.tone}
+                locale={locale}
+                onChange={handleToneChange}
+              />
+
               <button
                 onClick={handleTryAgain}
                 className="mt-16 px-8 py-3 bg-white/10 hover:bg-white/20 text-white rounded-full border border-white/20 transition-all duration-300 text-sm font-medium backdrop-blur-sm"
               >
-                Try again
+                {ui.tryAgain}
               </button>
+
+              <a
+                href="/recover"
+                className="block mt-6 text-xs text-white/40 hover:text-white/70 transition-colors duration-300"
+              >
+                {messages.recovery.link}
+              </a>
             </div>
           )}
         </div>
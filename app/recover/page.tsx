@@ -0,0 +1,134 @@
+'use client'
+
+// Recovery page
+// Exports this browser's user key as a recovery code and imports one from
+// another device (see lib/recoveryCode.ts)
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { exportRecovery, importRecovery } from '@/lib/recoveryCode'
+import { type Locale, DEFAULT_LOCALE, getMessages, negotiateLocale } from '@/lib/locales'
+
+type CopyStatus = 'idle' | 'copied' | 'failed'
+
+export default function Recover() {
+  const [locale, setLocale] = useState<Locale>(DEFAULT_LOCALE)
+  const [exported, setExported] = useState<{ code: string; qrPayload: string } | null>(null)
+  const [exportFailed, setExportFailed] = useState(false)
+  const [copyStatus, setCopyStatus] = useState<CopyStatus>('idle')
+  const [input, setInput] = useState('')
+  const [imported, setImported] = useState<boolean | null>(null)
+
+  const messages = getMessages(locale).recovery
+
+  useEffect(() => {
+    const negotiated = negotiateLocale(undefined, navigator.languages.join(','))
+    setLocale(negotiated)
+    document.documentElement.lang = negotiated
+  }, [])
+
+  useEffect(() => {
+    try {
+      setExported(exportRecovery())
+      setExportFailed(false)
+    } catch {
+      setExportFailed(true)
+    }
+  }, [imported])
+
+  // The clipboard can be refused (no permission, insecure context); the code
+  // stays on screen to copy by hand
+  const handleCopy = async () => {
+    if (!exported) return
+    try {
+      await navigator.clipboard.writeText(exported.code)
+      setCopyStatus('copied')
+    } catch {
+      setCopyStatus('failed')
+    }
+  }
+
+  const handleImport = () => {
+    const ok = importRecovery(input)
+    setImported(ok)
+    if (ok) {
+      setInput('')
+      setCopyStatus('idle')
+    }
+  }
+
+  return (
+    <main className="relative w-full min-h-screen bg-[#0a0a0a]">
+      <div className="flex flex-col items-center justify-center min-h-screen px-8 py-16">
+        <div className="max-w-2xl w-full text-center space-y-8">
+          <h1 className="text-4xl md:text-5xl font-light text-white">{messages.title}</h1>
+          <p className="text-base text-white/60 font-light">{messages.intro}</p>
+
+          {/* Export */}
+          <section className="pt-6 border-t border-white/20 space-y-3">
+            <h2 className="text-sm text-white/50">{messages.exportLabel}</h2>
+            {exportFailed && <p className="text-sm text-red-300/80">{messages.exportFailed}</p>}
+            {exported && !exportFailed && (
+              <>
+                <p className="text-lg font-mono text-white/80 tracking-wider break-all px-4">
+                  {exported.code}
+                </p>
+                <button
+                  onClick={handleCopy}
+                  className="px-6 py-2 bg-white/10 hover:bg-white/20 text-white rounded-full border border-white/20 transition-all duration-300 text-xs font-medium"
+                >
+                  {copyStatus === 'copied' ? messages.copied : messages.copy}
+                </button>
+                {copyStatus === 'failed' && (
+                  <p role="status" className="text-sm text-red-300/80">
+                    {messages.copyFailed}
+                  </p>
+                )}
+                <p className="text-xs text-white/40 italic">{messages.exportNote}</p>
+                <details className="text-left">
+                  <summary className="text-xs text-white/40 cursor-pointer text-center">
+                    {messages.qrLabel}
+                  </summary>
+                  <p className="mt-2 text-xs font-mono text-white/60 break-all">{exported.qrPayload}</p>
+                </details>
+              </>
+            )}
+          </section>
+
+          {/* Import */}
+          <section className="pt-6 border-t border-white/20 space-y-3">
+            <h2 className="text-sm text-white/50">{messages.importLabel}</h2>
+            <textarea
+              value={input}
+              onChange={(event) => setInput(event.target.value)}
+              placeholder={messages.importPlaceholder}
+              rows={3}
+              spellCheck={false}
+              className="w-full px-4 py-3 bg-white/5 border border-white/15 rounded-2xl font-mono text-sm text-white placeholder:text-white/30 focus:outline-none focus:border-white/40"
+            />
+            <button
+              onClick={handleImport}
+              disabled={input.trim() === ''}
+              className="px-8 py-3 bg-white/10 hover:bg-white/20 disabled:opacity-40 text-white rounded-full border border-white/20 transition-all duration-300 text-sm font-medium"
+            >
+              {messages.importButton}
+            </button>
+            <p className="text-xs text-white/40 italic">{messages.importNote}</p>
+            {imported !== null && (
+              <p role="status" className={`text-sm ${imported ? 'text-white/70' : 'text-red-300/80'}`}>
+                {imported ? messages.imported : messages.invalid}
+              </p>
+            )}
+          </section>
+
+          <Link
+            href="/"
+            className="inline-block mt-8 px-8 py-3 bg-white/10 hover:bg-white/20 text-white rounded-full border border-white/20 transition-all duration-300 text-sm font-medium backdrop-blur-sm"
+          >
+            {messages.back}
+          </Link>
+        </div>
+      </div>
+    </main>
+  )
+}
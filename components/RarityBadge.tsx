@@ -0,0 +1,32 @@
+// Rarity styling for revealed compliments
+// Uncommon and rare compliments get their own typography, a glow and a badge
+
+import { type Rarity } from '@/lib/rarity'
+import { type Locale, getMessages } from '@/lib/locales'
+
+// Heading classes per tier (glow classes live in app/globals.css)
+export const RARITY_HEADING_CLASSES: Record<Rarity, string> = {
+  1: 'font-light text-white',
+  2: 'font-normal tracking-wide text-sky-50 rarity-glow-uncommon',
+  3: 'font-serif italic text-amber-50 rarity-glow-rare',
+}
+
+// Labels come from the locale's messages.json (rarity section)
+const BADGES: Record<Rarity, { label: 'uncommon' | 'rare'; className: string } | null> = {
+  1: null,
+  2: { label: 'uncommon', className: 'text-sky-200 border-sky-300/40 bg-sky-300/10' },
+  3: { label: 'rare', className: 'text-amber-200 border-amber-300/50 bg-amber-300/10' },
+}
+
+export default function RarityBadge({ rarity, locale }: { rarity: Rarity; locale: Locale }) {
+  const badge = BADGES[rarity]
+  if (!badge) return null
+
+  return (
+    <span
+      className={`inline-block px-4 py-1 rounded-full border text-xs uppercase tracking-[0.3em] ${badge.className}`}
+    >
+      {getMessages(locale).rarity[badge.label]}
+    </span>
+  )
+}
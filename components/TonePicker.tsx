@@ -0,0 +1,44 @@
+// Tone picker on the reveal screen
+// The choice is stored next to the user key and sent with the next request
+
+import { type Tone, TONES } from '@/lib/tones'
+import { type Locale, getMessages } from '@/lib/locales'
+
+interface TonePickerProps {
+  tone: Tone // currently chosen
+  shownTone?: Tone // tone of the compliment on screen
+  locale: Locale
+  onChange: (tone: Tone) => void
+}
+
+export default function TonePicker({ tone, shownTone, locale, onChange }: TonePickerProps) {
+  const labels = getMessages(locale).tone
+
+  return (
+    <div className="mt-8 flex flex-col items-center gap-3">
+      <div role="radiogroup" aria-label={labels.label} className="flex flex-wrap justify-center gap-2">
+        <span className="text-xs text-white/40 uppercase tracking-wider self-center mr-2">
+          {labels.label}
+        </span>
+        {TONES.map((option) => (
+          <button
+            key={option}
+            role="radio"
+            aria-checked={option === tone}
+            onClick={() => onChange(option)}
+            className={`px-4 py-1 rounded-full border text-xs transition-all duration-300 ${
+              option === tone
+                ? 'bg-white/20 border-white/40 text-white'
+                : 'bg-transparent border-white/15 text-white/60 hover:text-white hover:border-white/30'
+            }`}
+          >
+            {labels[option]}
+          </button>
+        ))}
+      </div>
+      {shownTone !== undefined && shownTone !== tone && (
+        <p className="text-xs text-white/40 italic">{labels.nextGift}</p>
+      )}
+    </div>
+  )
+}
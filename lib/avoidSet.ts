@@ -0,0 +1,42 @@
+// Hashes a request must not be issued: the exact ones (avoidHashes, the
+// issuance store, rejections during the retry loop) plus, when the client
+// sent one, its Bloom filter of every hash it has seen. A filter hit may be
+// a false positive, which only costs a regeneration. Requests issued side by
+// side (batch items) also share one set of claimed hashes, read live, so two
+// of them never issue the same compliment
+
+import type { BloomFilter } from './bloomFilter'
+
+export interface ReadonlyAvoidSet {
+  has(hash: string): boolean
+}
+
+export class AvoidSet implements ReadonlyAvoidSet {
+  private readonly exact: Set<string>
+
+  constructor(
+    hashes: Iterable<string> = [],
+    private readonly filter?: BloomFilter,
+    private readonly claimed?: Set<string>
+  ) {
+    this.exact = new Set(hashes)
+  }
+
+  has(hash: string): boolean {
+    return (
+      this.exact.has(hash) || (this.filter?.has(hash) ?? false) || (this.claimed?.has(hash) ?? false)
+    )
+  }
+
+  add(hash: string): this {
+    this.exact.add(hash)
+    return this
+  }
+
+  // Reserve a hash about to be issued, so every set sharing `claimed` avoids
+  // it from now on. Call it right after has() returned false, with no await
+  // in between, so the check and the claim cannot interleave with another
+  claim(hash: string): void {
+    this.claimed?.add(hash)
+  }
+}
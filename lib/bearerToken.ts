@@ -0,0 +1,17 @@
+// Bearer token checks for the operator endpoints (admin API, metrics)
+
+import crypto from 'crypto'
+
+// Compare digests so the check takes the same time for any wrong token
+function tokensMatch(given: string, expected: string): boolean {
+  const a = crypto.createHash('sha256').update(given).digest()
+  const b = crypto.createHash('sha256').update(expected).digest()
+  return crypto.timingSafeEqual(a, b)
+}
+
+// Whether the request carries "Authorization: Bearer <expected>"
+export function hasBearerToken(headers: Headers, expected: string): boolean {
+  const header = headers.get('authorization') ?? ''
+  const given = header.startsWith('Bearer ') ? header.slice('Bearer '.length) : ''
+  return tokensMatch(given, expected)
+}
@@ -0,0 +1,131 @@
+// Bloom filter over SHA-256 hex digests
+// The page sends its whole seen set as one of these (avoidFilter) instead of
+// a capped avoidHashes list. Members are already uniform hashes, so the k bit
+// positions come straight from the digest (double hashing on two 32-bit
+// words) with no extra hashing, and the filter works the same in the
+// browser, the Edge runtime and Node.
+// Wire format, base64: [version, hashCount, ...bits], bit i of the array is
+// bit (i % 8) of byte 2 + floor(i / 8)
+
+export const BLOOM_FILTER_VERSION = 1
+
+// Hash counts past this stop lowering the false positive rate in practice
+export const MAX_BLOOM_HASH_COUNT = 16
+
+// Largest bit array accepted by the routes: 64 KiB holds ~55,000 seen
+// hashes at a 1% false positive rate
+export const MAX_BLOOM_FILTER_BYTES = 64 * 1024
+
+// False positive rate the page sizes its filter for. A false positive only
+// costs one regeneration, so 1% keeps the payload small
+export const DEFAULT_FALSE_POSITIVE_RATE = 0.01
+
+// Largest share of set bits accepted by the routes. Past this nearly every
+// hash tests positive, so a filter would avoid the whole compliment space.
+// A filter sized by forCapacity stays near 0.5 until it stops growing
+export const MAX_BLOOM_FILL_RATIO = 0.7
+
+const HEADER_BYTES = 2
+const HEX_HASH_PATTERN = /^[0-9a-f]{64}$/
+
+export class BloomFilter {
+  readonly bitCount: number
+
+  constructor(
+    readonly hashCount: number,
+    private readonly bits: Uint8Array
+  ) {
+    if (!Number.isInteger(hashCount) || hashCount < 1 || hashCount > MAX_BLOOM_HASH_COUNT) {
+      throw new RangeError(`hashCount must be an integer in 1..${MAX_BLOOM_HASH_COUNT}`)
+    }
+    if (bits.length === 0) {
+      throw new RangeError('A Bloom filter needs at least one byte of bits')
+    }
+    this.bitCount = bits.length * 8
+  }
+
+  // Smallest filter holding `capacity` members at `falsePositiveRate`. Past
+  // `maxBytes` the filter stops growing and the rate rises instead
+  static forCapacity(
+    capacity: number,
+    falsePositiveRate: number = DEFAULT_FALSE_POSITIVE_RATE,
+    maxBytes: number = MAX_BLOOM_FILTER_BYTES
+  ): BloomFilter {
+    const members = Math.max(1, capacity)
+    const bitCount = Math.min(
+      maxBytes * 8,
+      Math.ceil((-members * Math.log(falsePositiveRate)) / Math.LN2 ** 2)
+    )
+    const hashCount = Math.round((bitCount / members) * Math.LN2)
+    return new BloomFilter(
+      Math.min(MAX_BLOOM_HASH_COUNT, Math.max(1, hashCount)),
+      new Uint8Array(Math.ceil(bitCount / 8))
+    )
+  }
+
+  // Null when the input is not base64, has an unknown version or is malformed
+  static fromBase64(encoded: string): BloomFilter | null {
+    let bytes: Uint8Array
+    try {
+      bytes = Uint8Array.from(atob(encoded), (char) => char.charCodeAt(0))
+    } catch {
+      return null
+    }
+    if (bytes.length <= HEADER_BYTES || bytes[0] !== BLOOM_FILTER_VERSION) {
+      return null
+    }
+    const hashCount = bytes[1]
+    if (hashCount < 1 || hashCount > MAX_BLOOM_HASH_COUNT) {
+      return null
+    }
+    return new BloomFilter(hashCount, bytes.slice(HEADER_BYTES))
+  }
+
+  get byteLength(): number {
+    return this.bits.length
+  }
+
+  // Share of bits that are set
+  get fillRatio(): number {
+    let set = 0
+    for (const byte of this.bits) {
+      for (let rest = byte; rest !== 0; rest &= rest - 1) set++
+    }
+    return set / this.bitCount
+  }
+
+  // Members must be lowercase SHA-256 hex digests
+  add(hash: string): void {
+    for (const index of this.indices(hash)) {
+      this.bits[index >>> 3] |= 1 << (index & 7)
+    }
+  }
+
+  // False positives are possible, false negatives are not
+  has(hash: string): boolean {
+    if (!HEX_HASH_PATTERN.test(hash)) return false
+    for (const index of this.indices(hash)) {
+      if ((this.bits[index >>> 3] & (1 << (index & 7))) === 0) return false
+    }
+    return true
+  }
+
+  toBase64(): string {
+    const bytes = new Uint8Array(HEADER_BYTES + this.bits.length)
+    bytes[0] = BLOOM_FILTER_VERSION
+    bytes[1] = this.hashCount
+    bytes.set(this.bits, HEADER_BYTES)
+    return btoa(Array.from(bytes, (byte) => String.fromCharCode(byte)).join(''))
+  }
+
+  // Kirsch-Mitzenmacher double hashing: h1 + i * h2 (mod m). h2 is odd so
+  // the positions differ whenever m is a power of two
+  private indices(hash: string): number[] {
+    if (!HEX_HASH_PATTERN.test(hash)) {
+      throw new RangeError('Bloom filter members must be SHA-256 hex digests')
+    }
+    const h1 = parseInt(hash.substring(0, 8), 16)
+    const h2 = (parseInt(hash.substring(8, 16), 16) | 1) >>> 0
+    return Array.from({ length: this.hashCount }, (_, i) => (h1 + i * h2) % this.bitCount)
+  }
+}
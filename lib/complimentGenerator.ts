@@ -1,210 +1,93 @@
 // Compliment generator using template composition and continuous weights
 // Generates resonant compliments from behavior signals without if-statements
 
-import { SplitMix64, hashToSeed } from './entropy'
-
-// Template atoms
-const openers = [
-  'You have',
-  'There\'s something',
-  'I notice',
-  'You bring',
-  'You hold',
-  'You carry',
-  'You show',
-  'You offer',
-  'You create',
-  'You find',
-  'You make',
-  'You keep',
-  'You know',
-  'You see',
-  'You feel',
-  'You move',
-  'You stay',
-  'You choose',
-  'You let',
-  'You give',
-]
-
-const traitStatements = [
-  // Calm/patient (high idle)
-  'a quiet kind of confidence',
-  'a steady presence',
-  'a patient way of seeing',
-  'a calm kind of precision',
-  'a gentle kind of strength',
-  'a thoughtful approach',
-  'a measured way of moving',
-  'a quiet kind of wisdom',
-  'a still kind of power',
-  'a patient kind of curiosity',
-  'a calm kind of focus',
-  'a steady kind of grace',
-  'a quiet kind of courage',
-  'a measured kind of energy',
-  'a gentle kind of persistence',
-  
-  // Exploratory (high movement)
-  'a restless curiosity',
-  'an exploratory mind',
-  'a wandering kind of attention',
-  'a searching kind of energy',
-  'a curious kind of movement',
-  'an adventurous spirit',
-  'a wide kind of seeing',
-  'a roaming kind of focus',
-  'a restless kind of intelligence',
-  'an exploratory kind of presence',
-  'a wandering kind of wisdom',
-  'a searching kind of grace',
-  'a curious kind of strength',
-  'an adventurous kind of patience',
-  'a wide kind of understanding',
-  
-  // Decisive (high clicks)
-  'a decisively playful way',
-  'a direct kind of curiosity',
-  'a quick kind of learning',
-  'a decisive kind of exploration',
-  'a sharp kind of attention',
-  'a focused kind of energy',
-  'a precise kind of movement',
-  'a direct kind of presence',
-  'a quick kind of understanding',
-  'a sharp kind of wisdom',
-  'a focused kind of curiosity',
-  'a precise kind of exploration',
-  'a decisive kind of patience',
-  'a direct kind of strength',
-  'a quick kind of grace',
-  
-  // Balanced combinations
-  'a thoughtful kind of energy',
-  'a measured kind of curiosity',
-  'a steady kind of exploration',
-  'a calm kind of playfulness',
-  'a patient kind of decisiveness',
-  'a gentle kind of directness',
-  'a quiet kind of action',
-  'a still kind of movement',
-  'a thoughtful kind of restlessness',
-  'a measured kind of adventure',
-  'a steady kind of searching',
-  'a calm kind of testing',
-  'a patient kind of exploring',
-  'a gentle kind of wandering',
-  'a quiet kind of learning',
-  'a still kind of curiosity',
-  'a thoughtful kind of play',
-  'a measured kind of energy',
-  'a steady kind of presence',
-  'a calm kind of intelligence',
-]
-
-const evidenceLines = [
-  // High idle / patience
-  'You don\'t rush the moment',
-  'You let things settle',
-  'You give things room',
-  'You wait for the right shape',
-  'You let time do its work',
-  'You don\'t force the answer',
-  'You trust the process',
-  'You let things land',
-  'You give space to what matters',
-  'You don\'t hurry the understanding',
-  'You let clarity find you',
-  'You wait for things to speak',
-  'You give moments their weight',
-  'You don\'t rush to conclusions',
-  'You let patterns emerge',
-  
-  // High movement / exploration
-  'You explore until you find the shape',
-  'You touch the edges to learn',
-  'You wander until something clicks',
-  'You search until it makes sense',
-  'You move until you see the pattern',
-  'You explore until the world opens',
-  'You test boundaries to understand',
-  'You roam until you find your way',
-  'You wander until clarity arrives',
-  'You explore until things connect',
-  'You move until the picture forms',
-  'You search until meaning appears',
-  'You test until systems speak back',
-  'You explore until patterns reveal',
-  'You wander until understanding comes',
-  
-  // High clicks / decisiveness
-  'You test things until they speak back',
-  'You don\'t just watch, you engage',
-  'You negotiate with systems',
-  'You interact until you understand',
-  'You probe until things respond',
-  'You engage until clarity comes',
-  'You test until patterns emerge',
-  'You interact until meaning forms',
-  'You probe until systems reveal',
-  'You engage until things connect',
-  'You test until understanding arrives',
-  'You interact until the picture forms',
-  'You probe until clarity appears',
-  'You engage until patterns speak',
-  'You test until meaning emerges',
-  
-  // Balanced
-  'You find the balance between action and stillness',
-  'You know when to move and when to wait',
-  'You blend curiosity with patience',
-  'You combine exploration with presence',
-  'You mix playfulness with thoughtfulness',
-  'You balance energy with calm',
-  'You weave movement with stillness',
-  'You combine testing with waiting',
-  'You blend directness with gentleness',
-  'You mix decisiveness with patience',
-  'You balance exploration with focus',
-  'You combine wandering with presence',
-  'You blend restlessness with calm',
-  'You mix searching with settling',
-  'You balance action with observation',
-]
-
-const closers = [
-  'That\'s rare.',
-  'That\'s a gift.',
-  'That\'s how builders think.',
-  'That\'s how artists see.',
-  'That\'s a rare skill.',
-  'That matters.',
-  'That\'s valuable.',
-  'That\'s how wisdom works.',
-  'That\'s how understanding grows.',
-  'That\'s how presence feels.',
-  'That\'s how learning happens.',
-  'That\'s how curiosity moves.',
-  'That\'s how patience pays.',
-  'That\'s how exploration rewards.',
-  'That\'s how presence builds.',
-]
+import { hashToSeed } from './entropy'
+import { createPrng } from './prng'
+import {
+  type Expansion,
+  type Grammar,
+  type GrammarDraw,
+  type StyleVector,
+  GrammarError,
+  expandRule,
+  expandTemplate,
+  parseGrammar,
+} from './grammar'
+import { type DropRates, type Rarity, getDropRates, rollRarity } from './rarity'
+import { type Locale, DEFAULT_LOCALE, formatMessage, getMessages } from './locales'
+import { type Tone, DEFAULT_TONE } from './tones'
+import { type StylizeTable, parseStylizeTable, stylizeFragments } from './stylize'
+import enGrammar from './locales/en/grammar.json'
+import esGrammar from './locales/es/grammar.json'
+import frGrammar from './locales/fr/grammar.json'
+import enTones from './locales/en/tones.json'
+import esTones from './locales/es/tones.json'
+import frTones from './locales/fr/tones.json'
+import enStylize from './locales/en/stylize.json'
+import esStylize from './locales/es/stylize.json'
+import frStylize from './locales/fr/stylize.json'
+
+// Every tone but classic needs an overlay in each locale
+type ToneOverlays = Record<Exclude<Tone, 'classic'>, unknown>
+
+function parseTones(raw: unknown, overlays: ToneOverlays): Record<Tone, Grammar> {
+  return {
+    classic: parseGrammar(raw),
+    professional: parseGrammar(raw, overlays.professional),
+    playful: parseGrammar(raw, overlays.playful),
+    poetic: parseGrammar(raw, overlays.poetic),
+  }
+}
+
+// Template content lives in lib/locales/<locale>/grammar.json, with tone
+// overlays in tones.json; parsed once at load so a broken edit fails fast.
+// Every locale and tone expands with the same key stream, so selection is
+// stable per locale and tone
+const grammars: Record<Locale, Record<Tone, Grammar>> = {
+  en: parseTones(enGrammar, enTones),
+  es: parseTones(esGrammar, esTones),
+  fr: parseTones(frGrammar, frTones),
+}
+
+// Phrase tables for the stylistic transformer (see lib/stylize.ts)
+const stylizeTables: Record<Locale, StylizeTable> = {
+  en: parseStylizeTable(enStylize),
+  es: parseStylizeTable(esStylize),
+  fr: parseStylizeTable(frStylize),
+}
+
+export function getGrammar(locale: Locale, tone: Tone = DEFAULT_TONE): Grammar {
+  return grammars[locale][tone]
+}
 
 // Continuous normalization
 function smooth01(x: number, k: number): number {
   return 1 - Math.exp(-x / k)
 }
 
+// Signals mapped to [0, 1)
+export interface NormalizedSignals {
+  movement: number // exploration energy
+  clicks: number // decisiveness / agency
+  idle: number // patience / presence
+}
+
+// Signal value that counts as "a lot"; shared with the rule-based reflector
+// so both read behaviour on the same scale
+export const SIGNAL_SCALES = { pixelsMoved: 5000, clicks: 10, idleMs: 5000 }
+
+// Normalize continuously
+export function normalizeSignals(pixelsMoved: number, clicks: number, idleMs: number): NormalizedSignals {
+  return {
+    movement: smooth01(pixelsMoved, SIGNAL_SCALES.pixelsMoved),
+    clicks: smooth01(clicks, SIGNAL_SCALES.clicks),
+    idle: smooth01(idleMs, SIGNAL_SCALES.idleMs),
+  }
+}
+
 // Compute style vector from normalized metrics
-function computeStyleVector(
-  pixelsMoved: number,
-  clicks: number,
-  idleMs: number
-): { tempo: number; softness: number; spark: number } {
-  // Normalize continuously
-  const m = smooth01(pixelsMoved, 5000) // exploration energy
-  const c = smooth01(clicks, 10) // decisiveness / agency
-  const i = smooth01(idleMs, 5000) // patience / presence
+export function computeStyleVector(normalized: NormalizedSignals): StyleVector {
+  const { movement: m, clicks: c, idle: i } = normalized
 
   // Derive style vector (all continuous)
   const tempo = 0.6 * c + 0.4 * (1 - i)
@@ -214,143 +97,233 @@ function computeStyleVector(
   return { tempo, softness, spark }
 }
 
-// Weighted selection from array
-function weightedSelect<T>(
-  items: T[],
-  weights: number[],
-  rng: SplitMix64
-): T {
-  const totalWeight = weights.reduce((sum, w) => sum + w, 0)
-  let random = rng.nextDouble() * totalWeight
-
-  for (let i = 0; i < items.length; i++) {
-    random -= weights[i]
-    if (random <= 0) {
-      return items[i]
-    }
-  }
-  return items[items.length - 1]
+// Composition slots, in the order they appear in the text (the grammar's
+// compliment fragments must use these names)
+export type ComplimentSlot = 'opener' | 'trait' | 'evidence' | 'closer'
+
+const COMPLIMENT_SLOTS: ComplimentSlot[] = ['opener', 'trait', 'evidence', 'closer']
+
+Object.values(grammars).forEach((tones) =>
+  Object.values(tones).forEach((grammar) =>
+    grammar.compliment.forEach((fragment) => {
+      if (!COMPLIMENT_SLOTS.includes(fragment.slot as ComplimentSlot)) {
+        throw new GrammarError(`compliment slot ${fragment.slot} is not a ComplimentSlot`)
+      }
+    })
+  )
+)
+
+// Letters add a greeting, the signals line and a sign-off (see composeLetter)
+export type FragmentSlot = ComplimentSlot | 'greeting' | 'signals' | 'signoff'
+
+// One composition step; fragments concatenate to the full text
+export interface ComplimentFragment {
+  slot: FragmentSlot
+  text: string
 }
 
-// Generate compliment from templates using style vector
-export function generateCompliment(
+export interface ComposedCompliment {
+  text: string
+  fragments: ComplimentFragment[]
+  rarity: Rarity // highest tier actually used
+  tier: Rarity // rolled tier; personal keys record it (see lib/complimentKey.ts)
+}
+
+// Mixed into the key seed for the rarity roll. A separate stream keeps the
+// template draws identical to before tiers existed. The roll itself depends
+// on the drop rates, so personal keys record the tier it gave
+const RARITY_STREAM = 0x9e3779b97f4a7c15n
+
+// Everything composition decided, for the explain endpoint
+export interface ComplimentExplanation {
+  normalized: NormalizedSignals
+  style: StyleVector
+  rarityRoll: { draw: number; dropRates: DropRates; tier: Rarity }
+  slots: { slot: FragmentSlot; template: string; text: string; draws: GrammarDraw[] }[]
+  text: string
+  rarity: Rarity // highest tier actually used (may be below the rolled tier)
+}
+
+// Shared by composeCompliment and explainCompliment; `traces` collects the
+// grammar draws per slot when given
+function compose(
   keyHex: string,
+  style: StyleVector,
+  locale: Locale,
+  tone: Tone,
+  dropRates: DropRates,
+  traces?: GrammarDraw[][]
+): ComposedCompliment & { tierDraw: number } {
+  const grammar = grammars[locale][tone]
+  const seed = hashToSeed(keyHex)
+  const rng = createPrng(seed)
+  const tierDraw = createPrng(seed ^ RARITY_STREAM).nextDouble()
+  const tier = rollRarity(dropRates, tierDraw)
+
+  // Expand each fragment template in order (weights come from entry styles)
+  let rarity: Rarity = 1
+  const fragments: ComplimentFragment[] = grammar.compliment.map((fragment, index) => {
+    const trace: GrammarDraw[] | undefined = traces ? (traces[index] = []) : undefined
+    const expansion = expandTemplate(grammar, fragment.template, style, rng, tier, trace)
+    rarity = Math.max(rarity, expansion.rarity) as Rarity
+    return { slot: fragment.slot as ComplimentSlot, text: expansion.text }
+  })
+
+  // Reshape the rhythm by tempo and softness, continuing the same stream
+  const styled = stylizeFragments(fragments, style, stylizeTables[locale], rng)
+
+  return { text: styled.map((f) => f.text).join(''), fragments: styled, rarity, tier, tierDraw }
+}
+
+// Compose compliment from templates using style vector, keeping each slot
+// as a separate fragment (used for the streaming reveal)
+// Pure: the same key, signals, locale, tone and drop rates always give the same result
+export function composeCompliment(
+  keyHex: string,
+  pixelsMoved: number,
+  clicks: number,
+  idleMs: number,
+  locale: Locale = DEFAULT_LOCALE,
+  tone: Tone = DEFAULT_TONE,
+  dropRates: DropRates = getDropRates()
+): ComposedCompliment {
+  const style = computeStyleVector(normalizeSignals(pixelsMoved, clicks, idleMs))
+  const { text, fragments, rarity, tier } = compose(keyHex, style, locale, tone, dropRates)
+  return { text, fragments, rarity, tier }
+}
+
+// Opener/trait/evidence sentences in a letter, each trait from a different
+// style category (the grammars have four)
+const LETTER_PAIRS = 3
+
+// Fill the [pixels], [clicks] and [seconds] placeholders of a signals line
+// with the locale's number format and plural forms (messages.json letter.units)
+function weaveSignals(
+  text: string,
+  locale: Locale,
   pixelsMoved: number,
   clicks: number,
   idleMs: number
 ): string {
-  const seed = hashToSeed(keyHex)
-  const rng = new SplitMix64(seed)
-
-  const style = computeStyleVector(pixelsMoved, clicks, idleMs)
-
-  // Select opener (weighted by spark for energy)
-  const openerWeights = openers.map(() => 1.0)
-  const opener = weightedSelect(openers, openerWeights, rng)
-
-  // Select trait (weighted by style vector)
-  const traitWeights = traitStatements.map((_, i) => {
-    // High idle -> calm traits (first 15)
-    if (i < 15) return 0.5 + style.softness * 1.5
-    // High movement -> exploratory traits (next 15)
-    if (i < 30) return 0.5 + style.spark * 1.5
-    // High clicks -> decisive traits (next 15)
-    if (i < 45) return 0.5 + style.tempo * 1.5
-    // Balanced traits (rest)
-    return 0.5 + (1 - Math.abs(style.tempo - style.softness)) * 1.0
-  })
-  const trait = weightedSelect(traitStatements, traitWeights, rng)
-
-  // Select evidence (weighted by style)
-  const evidenceWeights = evidenceLines.map((_, i) => {
-    // High idle -> patience evidence (first 15)
-    if (i < 15) return 0.5 + style.softness * 1.5
-    // High movement -> exploration evidence (next 15)
-    if (i < 30) return 0.5 + style.spark * 1.5
-    // High clicks -> decisiveness evidence (next 15)
-    if (i < 45) return 0.5 + style.tempo * 1.5
-    // Balanced evidence (rest)
-    return 0.5 + (1 - Math.abs(style.tempo - style.softness)) * 1.0
+  const { units } = getMessages(locale).letter
+  const numbers = new Intl.NumberFormat(locale)
+  const plurals = new Intl.PluralRules(locale)
+  const values = {
+    pixels: Math.round(pixelsMoved),
+    clicks: Math.round(clicks),
+    seconds: Math.round(idleMs / 1000),
+  }
+  return text.replace(/\[(pixels|clicks|seconds)\]/g, (_, name: keyof typeof values) => {
+    const forms: Record<string, string> = units[name]
+    const n = values[name]
+    return formatMessage(forms[plurals.select(n)] ?? forms.other, { n: numbers.format(n) })
   })
-  const evidence = weightedSelect(evidenceLines, evidenceWeights, rng)
+}
 
-  // Select closer (weighted by softness for warmth)
-  const closerWeights = closers.map(() => 0.8 + style.softness * 0.4)
-  const closer = weightedSelect(closers, closerWeights, rng)
+// Compose a paragraph-length letter: a greeting, LETTER_PAIRS opener, trait
+// and evidence sentences (no opener or trait category twice, evidence from
+// the trait's category), the signals line, a closer and a sign-off.
+// Same key stream, rarity roll and stylizer as composeCompliment, and pure
+// in the same way
+export function composeLetter(
+  keyHex: string,
+  pixelsMoved: number,
+  clicks: number,
+  idleMs: number,
+  locale: Locale = DEFAULT_LOCALE,
+  tone: Tone = DEFAULT_TONE,
+  dropRates: DropRates = getDropRates()
+): ComposedCompliment {
+  const style = computeStyleVector(normalizeSignals(pixelsMoved, clicks, idleMs))
+  const grammar = grammars[locale][tone]
+  const seed = hashToSeed(keyHex)
+  const rng = createPrng(seed)
+  const tier = rollRarity(dropRates, createPrng(seed ^ RARITY_STREAM).nextDouble())
 
-  // Compose compliment
-  let compliment = `${opener} ${trait}. ${evidence}. ${closer}`
+  let rarity: Rarity = 1
+  const fragments: ComplimentFragment[] = []
+  const add = (slot: FragmentSlot, before: string, expansion: Expansion, after = '') => {
+    rarity = Math.max(rarity, expansion.rarity) as Rarity
+    fragments.push({ slot, text: `${before}${expansion.text}${after}` })
+  }
 
-  // Add punctuation variation based on tempo
-  if (style.tempo > 0.7) {
-    // High tempo: shorter, punchier
-    compliment = compliment.replace(/\./g, (match, offset) => {
-      if (offset < compliment.length - 1 && rng.nextDouble() > 0.7) {
-        return '.'
-      }
-      return match
-    })
-  } else if (style.softness > 0.7) {
-    // High softness: more pauses
-    compliment = compliment.replace(/\. /g, '. ')
+  const openers = new Set<string>()
+  const categories = new Set<string>()
+
+  add('greeting', '', expandRule(grammar, 'letterGreeting', style, rng, tier))
+  for (let pair = 0; pair < LETTER_PAIRS; pair++) {
+    // The last pair opens the second paragraph, after the signals line
+    if (pair === LETTER_PAIRS - 1) {
+      const signals = expandRule(grammar, 'letterSignals', style, rng, tier)
+      add('signals', '\n\n', {
+        text: weaveSignals(signals.text, locale, pixelsMoved, clicks, idleMs),
+        rarity: signals.rarity,
+      })
+    }
+
+    const opener = expandRule(grammar, 'opener', style, rng, tier, (entry) => openers.has(entry.text))
+    openers.add(opener.entry.text)
+    add('opener', pair === 0 ? '\n\n' : ' ', opener)
+
+    const trait = expandRule(grammar, 'trait', style, rng, tier, (entry) =>
+      categories.has(entry.style ?? '')
+    )
+    const category = trait.entry.style ?? ''
+    categories.add(category)
+    add('trait', ' ', trait, '.')
+
+    const evidence = expandRule(grammar, 'evidence', style, rng, tier, (entry) =>
+      (entry.style ?? '') !== category
+    )
+    add('evidence', ' ', evidence, '.')
   }
+  add('closer', ' ', expandRule(grammar, 'closer', style, rng, tier))
+  add('signoff', '\n\n', expandRule(grammar, 'letterSignoff', style, rng, tier))
 
-  return compliment
+  const styled = stylizeFragments(fragments, style, stylizeTables[locale], rng)
+  return { text: styled.map((f) => f.text).join(''), fragments: styled, rarity, tier }
 }
 
-// Generate behavior reflection (for the subline)
-export function generateBehaviorReflection(
+// Same composition as composeCompliment, plus the intermediate values and
+// every weighted draw behind it (debugging aid; never used to issue)
+export function explainCompliment(
   keyHex: string,
   pixelsMoved: number,
   clicks: number,
-  idleMs: number
-): string {
-  const seed = hashToSeed(keyHex)
-  const rng = new SplitMix64(seed)
-
-  const style = computeStyleVector(pixelsMoved, clicks, idleMs)
-
-  const reflections = [
-    // High idle
-    'Opened slowly.',
-    'Unwrapped with patience.',
-    'Opened with stillness.',
-    'Unwrapped carefully.',
-    'Opened with presence.',
-    'Unwrapped gently.',
-    
-    // High movement
-    'Unwrapped with curiosity.',
-    'Opened while exploring.',
-    'Unwrapped with wonder.',
-    'Opened while moving.',
-    'Unwrapped with restlessness.',
-    'Opened while searching.',
-    
-    // High clicks
-    'Opened all at once.',
-    'Unwrapped decisively.',
-    'Opened with anticipation.',
-    'Unwrapped quickly.',
-    'Opened with eagerness.',
-    'Unwrapped directly.',
-    
-    // Balanced
-    'Opened just now.',
-    'Unwrapped with intention.',
-    'Opened with care.',
-    'Unwrapped thoughtfully.',
-    'Opened with presence.',
-    'Unwrapped with attention.',
-  ]
-
-  const weights = reflections.map((_, i) => {
-    if (i < 6) return 0.5 + style.softness * 1.5 // patience
-    if (i < 12) return 0.5 + style.spark * 1.5 // exploration
-    if (i < 18) return 0.5 + style.tempo * 1.5 // decisiveness
-    return 0.5 + (1 - Math.abs(style.tempo - style.softness)) * 1.0 // balanced
-  })
+  idleMs: number,
+  locale: Locale = DEFAULT_LOCALE,
+  tone: Tone = DEFAULT_TONE,
+  dropRates: DropRates = getDropRates()
+): ComplimentExplanation {
+  const normalized = normalizeSignals(pixelsMoved, clicks, idleMs)
+  const style = computeStyleVector(normalized)
+  const traces: GrammarDraw[][] = []
+  const composed = compose(keyHex, style, locale, tone, dropRates, traces)
 
-  return weightedSelect(reflections, weights, rng)
+  return {
+    normalized,
+    style,
+    rarityRoll: { draw: composed.tierDraw, dropRates, tier: composed.tier },
+    slots: composed.fragments.map((fragment, index) => ({
+      slot: fragment.slot,
+      template: grammars[locale][tone].compliment[index].template,
+      text: fragment.text,
+      draws: traces[index],
+    })),
+    text: composed.text,
+    rarity: composed.rarity,
+  }
 }
 
+// Generate compliment from templates using style vector
+// Pure: the same key, signals, locale and tone always give the same text
+export function generateCompliment(
+  keyHex: string,
+  pixelsMoved: number,
+  clicks: number,
+  idleMs: number,
+  locale: Locale = DEFAULT_LOCALE,
+  tone: Tone = DEFAULT_TONE
+): string {
+  return composeCompliment(keyHex, pixelsMoved, clicks, idleMs, locale, tone).text
+}
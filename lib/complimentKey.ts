@@ -0,0 +1,345 @@
+// Personal key encoding for issued compliments
+// The key carries every entropy input the route used (signals, identity,
+// session nonce, the locale and the reflection strategy, then either what
+// composed the text or the curated entry it came from), so the exact
+// compliment and reflection can be rebuilt later. Generated text needs no
+// storage; curated text is looked up by hash in the corpus. The identity is a
+// keyed subject digest (lib/fingerprint.ts), never the raw user key and env,
+// so sharing a key does not share the identity. In privacy mode the key also
+// names the salt epoch, and a tag keyed with the epoch's salt authenticates it
+
+import type { UserSignals } from './entropy'
+import {
+  type ComplimentExplanation,
+  composeCompliment,
+  composeLetter,
+  explainCompliment,
+} from './complimentGenerator'
+import { type ReflectionStrategy, getReflector, isReflectionStrategy } from './reflection'
+import { applyLintFixes, getLintRules } from './complimentLint'
+import { isComplimentHash, validateSignals } from './complimentSchema'
+import { findCuratedCompliment } from './corpus'
+import { type Rarity, isRarity, pinnedDropRates } from './rarity'
+import { type Locale, isLocale } from './locales'
+import { type Tone, DEFAULT_TONE, isTone } from './tones'
+import { type Format, DEFAULT_FORMAT, isFormat } from './formats'
+import {
+  type FingerprintIdentity,
+  getFingerprintConfig,
+  identityEntropyKey,
+  isSubject,
+  saltFor,
+} from './fingerprint'
+import { hmacSha256Hex, sha256Hex } from './hash'
+
+// One version per layout; bump it when that layout changes, and keep the
+// old version decoding once keys have shipped with it
+const KEY_VERSION = 1
+const PRIVATE_KEY_VERSION = 2
+
+// Wire elements before the text fields (the private layout adds the epoch)
+// and of each kind of text fields; the private layout ends with the tag
+const HEADER_LENGTH = 8
+const PRIVATE_HEADER_LENGTH = 9
+const GRAMMAR_TEXT_LENGTH = 5
+const CORPUS_TEXT_LENGTH = 1
+
+// Tags are truncated to 64 bits
+const TAG_HEX_LENGTH = 16
+
+// Where the text came from
+export type KeyedText =
+  | {
+      source: 'grammar'
+      nonceSuffix: string // appended to sessionNonce for the attempt that produced the text ('' on the first try)
+      textPixelsMoved: number // pixelsMoved fed to the generator (differs on the collision fallback)
+      tone: Tone
+      format: Format
+      tier: Rarity // rolled rarity tier, so RARITY_DROP_RATES never changes a key
+    }
+  | {
+      source: 'corpus' // curated pick, next to the grammar or on the degraded path
+      hash: string // CorpusEntry.hash
+    }
+
+// Everything needed to regenerate one compliment
+export interface ComplimentKeyPayload {
+  signals: UserSignals
+  identity: FingerprintIdentity
+  sessionNonce: string // drives the reflection
+  locale: Locale
+  reflector: ReflectionStrategy // so REFLECTION_STRATEGY never changes a key
+  text: KeyedText
+}
+
+export interface RebuiltCompliment {
+  id: string
+  text: string
+  reflection: string
+  rarity: Rarity
+  locale: Locale
+  tone: Tone
+  format: Format
+}
+
+// Compact wire layouts: positional arrays keep the key short. Both carry the
+// subject digest, never the user key or env values
+type WireText =
+  | [nonceSuffix: string, textPixelsMoved: number, tone: string, format: string, tier: number]
+  | [corpusHash: string]
+
+type WirePayload = [
+  version: number,
+  pixelsMoved: number,
+  clicks: number,
+  idleMs: number,
+  subject: string,
+  sessionNonce: string,
+  locale: string,
+  reflector: string,
+  ...text: WireText,
+]
+
+// Privacy layout: the salt epoch goes before the subject, and the tag covers
+// every other element
+type PrivateWirePayload = [
+  version: number,
+  pixelsMoved: number,
+  clicks: number,
+  idleMs: number,
+  epoch: number,
+  subject: string,
+  sessionNonce: string,
+  locale: string,
+  reflector: string,
+  ...text: WireText,
+  tag: string,
+]
+
+// base64url without Buffer, which the Edge runtime does not provide
+function toBase64Url(text: string): string {
+  const binary = Array.from(new TextEncoder().encode(text), (byte) => String.fromCharCode(byte)).join('')
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+// Throws on input that is not base64url or not UTF-8
+function fromBase64Url(key: string): string {
+  const binary = atob(key.replace(/-/g, '+').replace(/_/g, '/'))
+  const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0))
+  return new TextDecoder('utf-8', { fatal: true }).decode(bytes)
+}
+
+async function tagFor(salt: string, unsigned: unknown[]): Promise<string> {
+  return (await hmacSha256Hex(salt, JSON.stringify(unsigned))).substring(0, TAG_HEX_LENGTH)
+}
+
+// Compare without an early exit, so response timing does not reveal how much
+// of a forged tag was right
+function tagsEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false
+  let diff = 0
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i)
+  return diff === 0
+}
+
+function encodeText(text: KeyedText): WireText {
+  return text.source === 'corpus'
+    ? [text.hash]
+    : [text.nonceSuffix, text.textPixelsMoved, text.tone, text.format, text.tier]
+}
+
+// Encode a payload as a URL-safe key (privacy identities use the signed layout)
+export async function encodeComplimentKey(payload: ComplimentKeyPayload): Promise<string> {
+  const { signals, identity } = payload
+  const signalFields = [signals.pixelsMoved, signals.clicks, signals.idleMs] as const
+  const sessionFields = [payload.sessionNonce, payload.locale, payload.reflector] as const
+  const text = encodeText(payload.text)
+
+  if (identity.mode === 'hmac') {
+    const unsigned = [
+      PRIVATE_KEY_VERSION,
+      ...signalFields,
+      identity.epoch,
+      identity.subject,
+      ...sessionFields,
+      ...text,
+    ] as const
+    const wire: PrivateWirePayload = [...unsigned, await tagFor(identity.salt, [...unsigned])]
+    return toBase64Url(JSON.stringify(wire))
+  }
+
+  const wire: WirePayload = [KEY_VERSION, ...signalFields, identity.subject, ...sessionFields, ...text]
+  return toBase64Url(JSON.stringify(wire))
+}
+
+// Text fields of either kind; null when they are invalid
+function decodeText(fields: unknown[]): KeyedText | null {
+  if (fields.length === CORPUS_TEXT_LENGTH) {
+    const [hash] = fields
+    return isComplimentHash(hash) ? { source: 'corpus', hash } : null
+  }
+
+  const [nonceSuffix, textPixelsMoved, tone, format, tier] = fields
+  if (
+    fields.length !== GRAMMAR_TEXT_LENGTH ||
+    typeof nonceSuffix !== 'string' ||
+    typeof textPixelsMoved !== 'number' ||
+    !Number.isFinite(textPixelsMoved) ||
+    !isTone(tone) ||
+    !isFormat(format) ||
+    !isRarity(tier)
+  ) {
+    return null
+  }
+  return { source: 'grammar', nonceSuffix, textPixelsMoved, tone, format, tier }
+}
+
+// The signals, session fields and text fields, shared by both layouts; null
+// when any of them is invalid
+function decodeFields(
+  [pixelsMoved, clicks, idleMs]: unknown[],
+  [sessionNonce, locale, reflector]: unknown[],
+  textFields: unknown[]
+): Omit<ComplimentKeyPayload, 'identity'> | null {
+  // Reuse the request schema so a key can never carry values the route would reject
+  const validation = validateSignals({ pixelsMoved, clicks, idleMs })
+  const text = decodeText(textFields)
+  if (
+    !validation.ok ||
+    typeof sessionNonce !== 'string' ||
+    !isLocale(locale) ||
+    !isReflectionStrategy(reflector) ||
+    !text
+  ) {
+    return null
+  }
+  return { signals: validation.value, sessionNonce, locale, reflector, text }
+}
+
+// Decode a privacy key: the tag must match under the epoch's salt for the
+// current secret or one of FINGERPRINT_PREVIOUS_SECRETS
+async function decodePrivateKey(wire: unknown[]): Promise<ComplimentKeyPayload | null> {
+  const epoch = wire[4]
+  const subject = wire[5]
+  const tag = wire[wire.length - 1]
+  const fields = decodeFields(
+    wire.slice(1, 4),
+    wire.slice(6, PRIVATE_HEADER_LENGTH),
+    wire.slice(PRIVATE_HEADER_LENGTH, -1)
+  )
+  if (
+    !fields ||
+    !Number.isSafeInteger(epoch) ||
+    (epoch as number) < 0 ||
+    !isSubject(subject) ||
+    typeof tag !== 'string'
+  ) {
+    return null
+  }
+
+  const unsigned = wire.slice(0, -1)
+  for (const secret of getFingerprintConfig().secrets) {
+    const salt = await saltFor(secret, epoch as number)
+    if (tagsEqual(await tagFor(salt, unsigned), tag)) {
+      return { ...fields, identity: { mode: 'hmac', epoch: epoch as number, subject, salt } }
+    }
+  }
+  return null
+}
+
+// Decode a key; resolves null for anything malformed or, for privacy keys,
+// not signed with a known secret
+export async function decodeComplimentKey(key: string): Promise<ComplimentKeyPayload | null> {
+  if (!/^[A-Za-z0-9_-]{1,2048}$/.test(key)) return null
+
+  let wire: unknown
+  try {
+    wire = JSON.parse(fromBase64Url(key))
+  } catch {
+    return null
+  }
+
+  if (!Array.isArray(wire)) {
+    return null
+  }
+  if (wire[0] === PRIVATE_KEY_VERSION) {
+    return decodePrivateKey(wire)
+  }
+  if (wire[0] !== KEY_VERSION) {
+    return null
+  }
+
+  const subject = wire[4]
+  const fields = decodeFields(wire.slice(1, 4), wire.slice(5, HEADER_LENGTH), wire.slice(HEADER_LENGTH))
+  if (!fields || !isSubject(subject)) {
+    return null
+  }
+  return { ...fields, identity: { mode: 'plain', subject } }
+}
+
+// Entropy key of the attempt that produced generated text
+function textKeyFor(payload: ComplimentKeyPayload, nonceSuffix: string): Promise<string> {
+  return identityEntropyKey(payload.identity, payload.signals, `${payload.sessionNonce}${nonceSuffix}`)
+}
+
+// Regenerate the compliment and reflection a payload describes. Resolves null
+// for a curated compliment that is no longer in the corpus
+export async function rebuildCompliment(
+  payload: ComplimentKeyPayload
+): Promise<RebuiltCompliment | null> {
+  const { signals, identity, locale } = payload
+  const entropyKey = await identityEntropyKey(identity, signals, payload.sessionNonce)
+  const reflection = getReflector(payload.reflector).reflect({ key: entropyKey, signals, locale })
+
+  if (payload.text.source === 'corpus') {
+    const curated = await findCuratedCompliment(locale, payload.text.hash)
+    if (!curated) {
+      return null
+    }
+    return {
+      id: payload.text.hash,
+      text: curated.text,
+      reflection,
+      rarity: curated.rarity,
+      locale,
+      tone: DEFAULT_TONE,
+      format: DEFAULT_FORMAT,
+    }
+  }
+
+  const { nonceSuffix, textPixelsMoved, tone, format, tier } = payload.text
+  const compose = format === 'letter' ? composeLetter : composeCompliment
+  const { fragments, rarity } = compose(
+    await textKeyFor(payload, nonceSuffix),
+    textPixelsMoved,
+    signals.clicks,
+    signals.idleMs,
+    locale,
+    tone,
+    pinnedDropRates(tier)
+  )
+  // Issuance hashed and served the linted text
+  const text = applyLintFixes(fragments, getLintRules(format)).map((fragment) => fragment.text).join('')
+
+  return { id: await sha256Hex(text), text, reflection, rarity, locale, tone, format }
+}
+
+// Explain how the compliment a payload describes was composed; null for
+// curated compliments, which the grammar did not compose
+export async function explainComplimentKey(
+  payload: ComplimentKeyPayload
+): Promise<ComplimentExplanation | null> {
+  const { text } = payload
+  if (text.source === 'corpus') {
+    return null
+  }
+  return explainCompliment(
+    await textKeyFor(payload, text.nonceSuffix),
+    text.textPixelsMoved,
+    payload.signals.clicks,
+    payload.signals.idleMs,
+    payload.locale,
+    text.tone,
+    pinnedDropRates(text.tier)
+  )
+}
@@ -0,0 +1,158 @@
+// Output linter for generated compliments
+// Every candidate passes through the lint rules before it is issued. A rule
+// can fix the text (punctuation normalization) or reject it; issueCompliment
+// regenerates a rejected candidate with a new nonce, like an avoided hash.
+// Fixes work per fragment so the fragments still concatenate to the text
+
+import type { ComplimentFragment } from './complimentGenerator'
+import { type Format, DEFAULT_FORMAT } from './formats'
+
+export interface LintRule {
+  name: string
+  // Rewrite the fragments. Must be deterministic: personal keys re-apply
+  // the fixes when they rebuild a compliment
+  fix?(fragments: ComplimentFragment[]): ComplimentFragment[]
+  // Why the fixed text is rejected, or null when it passes
+  check?(text: string): string | null
+}
+
+export interface LintResult {
+  fragments: ComplimentFragment[] // after every fix
+  text: string
+  rejectedBy?: string // name of the first rule that rejected the text
+  reason?: string
+}
+
+const SENTENCE_END = /[.!?]/
+const LETTER = /\p{L}/u
+const SENTENCE_OPENERS = /[¿¡"'«(]/ // may come before the first letter of a sentence
+
+// Collapses doubled spaces and runs of sentence punctuation ("..", "!.")
+// and capitalizes the first letter of every sentence, across fragment
+// boundaries. Spaces before punctuation are kept (French typography)
+export function punctuationRule(): LintRule {
+  return {
+    name: 'punctuation',
+    fix(fragments) {
+      let previous = '' // last character kept, from any earlier fragment
+      let sentenceStart = true
+      return fragments.map((fragment) => {
+        let text = ''
+        for (const char of fragment.text) {
+          if (char === ' ' && previous === ' ') continue
+          if (char === '.' && SENTENCE_END.test(previous)) continue
+
+          let kept = char
+          if (SENTENCE_END.test(char)) {
+            sentenceStart = true
+          } else if (sentenceStart && LETTER.test(char)) {
+            kept = char.toLocaleUpperCase()
+            sentenceStart = false
+          } else if (!/\s/.test(char) && !SENTENCE_OPENERS.test(char)) {
+            sentenceStart = false
+          }
+          text += kept
+          previous = kept
+        }
+        return { ...fragment, text }
+      })
+    },
+  }
+}
+
+export function maxLengthRule(maxLength: number): LintRule {
+  return {
+    name: 'max_length',
+    check: (text) =>
+      text.length > maxLength ? `${text.length} characters (max ${maxLength})` : null,
+  }
+}
+
+// Whole-word, case-insensitive match
+export function bannedWordsRule(words: string[]): LintRule {
+  const banned = new Set(words.map((word) => word.toLowerCase()))
+  return {
+    name: 'banned_words',
+    check(text) {
+      const found = (text.toLowerCase().match(/[\p{L}'’-]+/gu) ?? []).find((word) =>
+        banned.has(word)
+      )
+      return found === undefined ? null : `contains "${found}"`
+    },
+  }
+}
+
+export function sentenceCountRule(min: number, max: number): LintRule {
+  return {
+    name: 'sentence_count',
+    check(text) {
+      const count = text.split(/[.!?]+(?:\s+|$)/).filter((s) => s.trim() !== '').length
+      return count < min || count > max ? `${count} sentences (allowed ${min}-${max})` : null
+    },
+  }
+}
+
+// Off-policy words for a workplace audience; LINT_BANNED_WORDS replaces the list
+const DEFAULT_BANNED_WORDS = ['stupid', 'dumb', 'crazy', 'insane', 'sexy', 'weird']
+
+// Length and sentence bounds per format. A compliment is at most ~175
+// characters from the grammar; a letter runs to ~550 with 6-16 sentences
+const LIMITS: Record<Format, { maxLengthEnv: string; maxLength: number; sentences: [number, number] }> = {
+  compliment: { maxLengthEnv: 'LINT_MAX_LENGTH', maxLength: 180, sentences: [2, 5] },
+  letter: { maxLengthEnv: 'LINT_LETTER_MAX_LENGTH', maxLength: 900, sentences: [6, 16] },
+}
+
+export function getDefaultLintRules(format: Format = DEFAULT_FORMAT): LintRule[] {
+  const limits = LIMITS[format]
+  const maxLength = Number(process.env[limits.maxLengthEnv])
+  const bannedWords = process.env.LINT_BANNED_WORDS
+  return [
+    punctuationRule(),
+    maxLengthRule(Number.isInteger(maxLength) && maxLength > 0 ? maxLength : limits.maxLength),
+    bannedWordsRule(
+      bannedWords === undefined
+        ? DEFAULT_BANNED_WORDS
+        : bannedWords.split(',').map((word) => word.trim()).filter(Boolean)
+    ),
+    sentenceCountRule(...limits.sentences),
+  ]
+}
+
+// Keep one rule set per format and process (survives Next.js dev hot reloads)
+const globalForLint = globalThis as unknown as {
+  lintRules?: Partial<Record<Format, LintRule[]>>
+}
+
+export function setLintRules(rules: LintRule[], format: Format = DEFAULT_FORMAT): void {
+  globalForLint.lintRules = { ...globalForLint.lintRules, [format]: rules }
+}
+
+export function getLintRules(format: Format = DEFAULT_FORMAT): LintRule[] {
+  const rules = (globalForLint.lintRules ??= {})
+  return (rules[format] ??= getDefaultLintRules(format))
+}
+
+// Apply only the fixes (used when rebuilding from a personal key, where the
+// text was already accepted)
+export function applyLintFixes(
+  fragments: ComplimentFragment[],
+  rules: LintRule[] = getLintRules()
+): ComplimentFragment[] {
+  return rules.reduce((current, rule) => (rule.fix ? rule.fix(current) : current), fragments)
+}
+
+// Fix, then check; the first failing check rejects
+export function lintCompliment(
+  fragments: ComplimentFragment[],
+  rules: LintRule[] = getLintRules()
+): LintResult {
+  const fixed = applyLintFixes(fragments, rules)
+  const text = fixed.map((fragment) => fragment.text).join('')
+  for (const rule of rules) {
+    const reason = rule.check?.(text)
+    if (reason) {
+      return { fragments: fixed, text, rejectedBy: rule.name, reason }
+    }
+  }
+  return { fragments: fixed, text }
+}
@@ -0,0 +1,558 @@
+// Shared request/response contract for POST /api/compliment
+// Imported by both the route and the client so the shapes never drift apart
+// Validation checks types first, then clamps, and reports field-level errors
+
+import type { UserSignals, EnvData } from './entropy'
+import type { Rarity } from './rarity'
+import type { Locale } from './locales'
+import { type Tone, DEFAULT_TONE, TONES, isTone } from './tones'
+import { type Format, DEFAULT_FORMAT, FORMATS, isFormat } from './formats'
+import { BloomFilter, MAX_BLOOM_FILL_RATIO, MAX_BLOOM_FILTER_BYTES } from './bloomFilter'
+
+// Supported API versions. Clients that omit apiVersion are treated as v1.
+export const SUPPORTED_API_VERSIONS = [1] as const
+export type ApiVersion = (typeof SUPPORTED_API_VERSIONS)[number]
+export const CURRENT_API_VERSION: ApiVersion = 1
+
+// Clamp ranges for raw signals (values outside are clamped, not rejected)
+export const SIGNAL_LIMITS: Record<keyof UserSignals, { min: number; max: number }> = {
+  pixelsMoved: { min: 0, max: 1000000 },
+  clicks: { min: 0, max: 10000 },
+  idleMs: { min: 0, max: 60000 },
+}
+
+// Maximum number of avoidHashes accepted per request
+export const MAX_AVOID_HASHES = 1000
+
+// Maximum number of items accepted by POST /api/compliments/batch
+export const MAX_BATCH_SIZE = 100
+
+// Stable error codes - clients may switch on these, so never rename them
+export type ValidationErrorCode =
+  | 'invalid_json'
+  | 'invalid_body'
+  | 'required'
+  | 'invalid_type'
+  | 'not_finite'
+  | 'invalid_format'
+  | 'too_many_items'
+  | 'unsupported_version'
+  | 'out_of_range'
+  | 'duplicate_hash'
+  | 'unknown_tag'
+  | 'too_large'
+  | 'saturated'
+  | 'not_enabled'
+
+export interface FieldError {
+  field: string // dotted path, e.g. "env.dpr" or "avoidHashes[3]"
+  code: ValidationErrorCode
+  message: string
+}
+
+// Request body
+export interface ComplimentRequest extends UserSignals {
+  apiVersion?: ApiVersion
+  userKey: string
+  env: EnvData
+  avoidHashes?: string[]
+  avoidFilter?: string // base64 Bloom filter of seen hashes, see lib/bloomFilter
+  seed?: string // reproducible mode: identical requests give identical responses
+  locale?: string // BCP 47 tag; negotiated with Accept-Language, see lib/locales
+  tone?: Tone // defaults to classic, see lib/tones
+  format?: Format // defaults to compliment; letter is paragraph-length, see lib/formats
+}
+
+// Successful response body
+export interface ComplimentResponse {
+  apiVersion: ApiVersion
+  id: string // SHA-256 of the text, used for deduplication
+  key: string // personal key; resolves via GET /api/compliment/[key]
+  text: string
+  reflection: string
+  rarity: Rarity // 1 = common, 2 = uncommon, 3 = rare
+  locale: Locale // locale the text and reflection are in
+  tone?: Tone // tone the text was composed in; absent on degraded responses
+  format?: Format // format of the text; absent on degraded responses (always a compliment)
+  degraded?: boolean // true when served from the curated fallback list
+}
+
+// Error response body
+export interface ComplimentErrorResponse {
+  apiVersion: ApiVersion
+  error:
+    | ValidationErrorCode
+    | 'invalid_key'
+    | 'not_found'
+    | 'exhausted'
+    | 'rate_limited'
+    | 'internal_error'
+  message: string
+  fieldErrors?: FieldError[]
+  retryAfterSeconds?: number // set with rate_limited, mirrors the Retry-After header
+}
+
+// Batch request body: each item has the same shape as a single request
+export interface BatchComplimentRequest {
+  apiVersion?: ApiVersion
+  items: Omit<ComplimentRequest, 'apiVersion'>[]
+}
+
+// Per-item outcome, in request order
+export type BatchItemResult =
+  | { index: number; ok: true; compliment: Omit<ComplimentResponse, 'apiVersion'> }
+  | {
+      index: number
+      ok: false
+      error: ValidationErrorCode | 'exhausted' | 'internal_error'
+      message: string
+      fieldErrors?: FieldError[]
+    }
+
+// Batch response body
+export interface BatchComplimentResponse {
+  apiVersion: ApiVersion
+  succeeded: number
+  failed: number
+  results: BatchItemResult[]
+}
+
+// Request after validation and clamping
+export interface ValidatedComplimentRequest {
+  apiVersion: ApiVersion
+  signals: UserSignals
+  userKey: string
+  env: EnvData
+  avoidHashes: string[]
+  avoidFilter?: BloomFilter
+  seed?: string
+  requestedLocale?: string // format-checked only; the route negotiates the Locale
+  tone: Tone
+  format: Format
+}
+
+export type ValidationResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; errors: FieldError[] }
+
+const HEX_HASH_PATTERN = /^[0-9a-f]{64}$/
+const LOCALE_TAG_PATTERN = /^[A-Za-z]{2,8}(-[A-Za-z0-9]{1,8})*$/
+
+// A compliment id: lowercase SHA-256 hex of the text
+export function isComplimentHash(value: unknown): value is string {
+  return typeof value === 'string' && HEX_HASH_PATTERN.test(value)
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function clamp(x: number, min: number, max: number): number {
+  return Math.max(min, Math.min(x, max))
+}
+
+// Check that a field is a finite number; pushes an error and returns null otherwise
+function readNumber(
+  source: Record<string, unknown>,
+  key: string,
+  path: string,
+  errors: FieldError[]
+): number | null {
+  const value = source[key]
+  if (value === undefined || value === null) {
+    errors.push({ field: path, code: 'required', message: `${path} is required` })
+    return null
+  }
+  if (typeof value !== 'number') {
+    errors.push({
+      field: path,
+      code: 'invalid_type',
+      message: `${path} must be a number`,
+    })
+    return null
+  }
+  if (!Number.isFinite(value)) {
+    errors.push({
+      field: path,
+      code: 'not_finite',
+      message: `${path} must be a finite number`,
+    })
+    return null
+  }
+  return value
+}
+
+function readApiVersion(
+  body: Record<string, unknown>,
+  errors: FieldError[]
+): ApiVersion {
+  const value = body.apiVersion
+  if (value === undefined) return 1
+  if (!(SUPPORTED_API_VERSIONS as readonly unknown[]).includes(value)) {
+    errors.push({
+      field: 'apiVersion',
+      code: 'unsupported_version',
+      message: `apiVersion must be one of ${SUPPORTED_API_VERSIONS.join(', ')}`,
+    })
+    return CURRENT_API_VERSION
+  }
+  return value as ApiVersion
+}
+
+function readSignals(
+  body: Record<string, unknown>,
+  errors: FieldError[]
+): UserSignals | null {
+  const signals: Partial<UserSignals> = {}
+  for (const key of Object.keys(SIGNAL_LIMITS) as (keyof UserSignals)[]) {
+    const value = readNumber(body, key, key, errors)
+    if (value !== null) {
+      const { min, max } = SIGNAL_LIMITS[key]
+      signals[key] = clamp(value, min, max)
+    }
+  }
+  return Object.keys(signals).length === 3 ? (signals as UserSignals) : null
+}
+
+function readEnv(
+  body: Record<string, unknown>,
+  errors: FieldError[]
+): EnvData | null {
+  if (body.env === undefined || body.env === null) {
+    errors.push({ field: 'env', code: 'required', message: 'env is required' })
+    return null
+  }
+  if (!isRecord(body.env)) {
+    errors.push({ field: 'env', code: 'invalid_type', message: 'env must be an object' })
+    return null
+  }
+
+  const w = readNumber(body.env, 'w', 'env.w', errors)
+  const h = readNumber(body.env, 'h', 'env.h', errors)
+  const dpr = readNumber(body.env, 'dpr', 'env.dpr', errors)
+  const tzOffset = readNumber(body.env, 'tzOffset', 'env.tzOffset', errors)
+  if (w === null || h === null || dpr === null || tzOffset === null) return null
+
+  return { w, h, dpr, tzOffset }
+}
+
+function readUserKey(
+  body: Record<string, unknown>,
+  errors: FieldError[]
+): string | null {
+  const value = body.userKey
+  if (value === undefined || value === null) {
+    errors.push({ field: 'userKey', code: 'required', message: 'userKey is required' })
+    return null
+  }
+  if (typeof value !== 'string') {
+    errors.push({
+      field: 'userKey',
+      code: 'invalid_type',
+      message: 'userKey must be a string',
+    })
+    return null
+  }
+  if (value.length === 0 || value.length > 128) {
+    errors.push({
+      field: 'userKey',
+      code: 'invalid_format',
+      message: 'userKey must be 1-128 characters',
+    })
+    return null
+  }
+  return value
+}
+
+function readSeed(
+  body: Record<string, unknown>,
+  errors: FieldError[]
+): string | undefined {
+  const value = body.seed
+  if (value === undefined) return undefined
+  if (typeof value !== 'string') {
+    errors.push({ field: 'seed', code: 'invalid_type', message: 'seed must be a string' })
+    return undefined
+  }
+  if (value.length === 0 || value.length > 128) {
+    errors.push({
+      field: 'seed',
+      code: 'invalid_format',
+      message: 'seed must be 1-128 characters',
+    })
+    return undefined
+  }
+  return value
+}
+
+function readLocale(
+  body: Record<string, unknown>,
+  errors: FieldError[]
+): string | undefined {
+  const value = body.locale
+  if (value === undefined) return undefined
+  if (typeof value !== 'string') {
+    errors.push({ field: 'locale', code: 'invalid_type', message: 'locale must be a string' })
+    return undefined
+  }
+  if (value.length > 35 || !LOCALE_TAG_PATTERN.test(value)) {
+    errors.push({
+      field: 'locale',
+      code: 'invalid_format',
+      message: 'locale must be a language tag such as "en" or "fr-CA"',
+    })
+    return undefined
+  }
+  return value
+}
+
+function readTone(body: Record<string, unknown>, errors: FieldError[]): Tone {
+  const value = body.tone
+  if (value === undefined) return DEFAULT_TONE
+  if (typeof value !== 'string') {
+    errors.push({ field: 'tone', code: 'invalid_type', message: 'tone must be a string' })
+    return DEFAULT_TONE
+  }
+  if (!isTone(value)) {
+    errors.push({
+      field: 'tone',
+      code: 'invalid_format',
+      message: `tone must be one of ${TONES.join(', ')}`,
+    })
+    return DEFAULT_TONE
+  }
+  return value
+}
+
+function readFormat(body: Record<string, unknown>, errors: FieldError[]): Format {
+  const value = body.format
+  if (value === undefined) return DEFAULT_FORMAT
+  if (typeof value !== 'string') {
+    errors.push({ field: 'format', code: 'invalid_type', message: 'format must be a string' })
+    return DEFAULT_FORMAT
+  }
+  if (!isFormat(value)) {
+    errors.push({
+      field: 'format',
+      code: 'invalid_format',
+      message: `format must be one of ${FORMATS.join(', ')}`,
+    })
+    return DEFAULT_FORMAT
+  }
+  return value
+}
+
+function readAvoidHashes(
+  body: Record<string, unknown>,
+  errors: FieldError[]
+): string[] {
+  const value = body.avoidHashes
+  if (value === undefined) return []
+  if (!Array.isArray(value)) {
+    errors.push({
+      field: 'avoidHashes',
+      code: 'invalid_type',
+      message: 'avoidHashes must be an array of strings',
+    })
+    return []
+  }
+  if (value.length > MAX_AVOID_HASHES) {
+    errors.push({
+      field: 'avoidHashes',
+      code: 'too_many_items',
+      message: `avoidHashes may contain at most ${MAX_AVOID_HASHES} items`,
+    })
+    return []
+  }
+
+  const hashes: string[] = []
+  value.forEach((item, index) => {
+    const path = `avoidHashes[${index}]`
+    if (typeof item !== 'string') {
+      errors.push({ field: path, code: 'invalid_type', message: `${path} must be a string` })
+    } else if (!HEX_HASH_PATTERN.test(item)) {
+      errors.push({
+        field: path,
+        code: 'invalid_format',
+        message: `${path} must be a lowercase SHA-256 hex digest`,
+      })
+    } else {
+      hashes.push(item)
+    }
+  })
+  return hashes
+}
+
+// base64 is 4 characters per 3 bytes; the header adds two bytes. A batch
+// may carry this much across all of its items, so one large filter or
+// several small ones, not one per item
+const MAX_AVOID_FILTER_LENGTH = Math.ceil((MAX_BLOOM_FILTER_BYTES + 2) / 3) * 4
+
+function readAvoidFilter(
+  body: Record<string, unknown>,
+  errors: FieldError[]
+): BloomFilter | undefined {
+  const value = body.avoidFilter
+  if (value === undefined) return undefined
+  if (typeof value !== 'string') {
+    errors.push({ field: 'avoidFilter', code: 'invalid_type', message: 'avoidFilter must be a string' })
+    return undefined
+  }
+  if (value.length > MAX_AVOID_FILTER_LENGTH) {
+    errors.push({
+      field: 'avoidFilter',
+      code: 'too_large',
+      message: `avoidFilter may hold at most ${MAX_BLOOM_FILTER_BYTES} bytes of bits`,
+    })
+    return undefined
+  }
+  const filter = BloomFilter.fromBase64(value)
+  if (!filter) {
+    errors.push({
+      field: 'avoidFilter',
+      code: 'invalid_format',
+      message: 'avoidFilter must be a base64 Bloom filter (see lib/bloomFilter.ts)',
+    })
+    return undefined
+  }
+  if (filter.fillRatio > MAX_BLOOM_FILL_RATIO) {
+    errors.push({
+      field: 'avoidFilter',
+      code: 'saturated',
+      message: `avoidFilter may have at most ${MAX_BLOOM_FILL_RATIO * 100}% of its bits set`,
+    })
+    return undefined
+  }
+  return filter
+}
+
+// Reported by the routes for a seed when reproducible mode is off (see
+// isSeededModeEnabled in lib/determinism.ts)
+export const SEED_NOT_ENABLED_ERROR: FieldError = {
+  field: 'seed',
+  code: 'not_enabled',
+  message: 'Reproducible mode is not enabled on this server',
+}
+
+// Validate an untrusted request body (already JSON-parsed)
+export function validateComplimentRequest(
+  body: unknown
+): ValidationResult<ValidatedComplimentRequest> {
+  if (!isRecord(body)) {
+    return {
+      ok: false,
+      errors: [
+        { field: '', code: 'invalid_body', message: 'Request body must be a JSON object' },
+      ],
+    }
+  }
+
+  const errors: FieldError[] = []
+  const apiVersion = readApiVersion(body, errors)
+  const signals = readSignals(body, errors)
+  const userKey = readUserKey(body, errors)
+  const env = readEnv(body, errors)
+  const avoidHashes = readAvoidHashes(body, errors)
+  const avoidFilter = readAvoidFilter(body, errors)
+  const seed = readSeed(body, errors)
+  const requestedLocale = readLocale(body, errors)
+  const tone = readTone(body, errors)
+  const format = readFormat(body, errors)
+
+  if (errors.length > 0 || !signals || userKey === null || !env) {
+    return { ok: false, errors }
+  }
+
+  return {
+    ok: true,
+    value: {
+      apiVersion,
+      signals,
+      userKey,
+      env,
+      avoidHashes,
+      avoidFilter,
+      seed,
+      requestedLocale,
+      tone,
+      format,
+    },
+  }
+}
+
+// Validate and clamp only the signals (personal keys in privacy mode carry
+// no user key or env)
+export function validateSignals(body: unknown): ValidationResult<UserSignals> {
+  const errors: FieldError[] = []
+  const signals = isRecord(body) ? readSignals(body, errors) : null
+  return signals && errors.length === 0 ? { ok: true, value: signals } : { ok: false, errors }
+}
+
+// Total length of the items' avoidFilter strings, checked before any is decoded
+function batchAvoidFilterLength(items: unknown[]): number {
+  return items.reduce<number>(
+    (total, item) =>
+      total + (isRecord(item) && typeof item.avoidFilter === 'string' ? item.avoidFilter.length : 0),
+    0
+  )
+}
+
+// Validate a batch body. Envelope problems fail the whole request;
+// item problems are kept per item so the rest of the batch can still run
+export function validateBatchRequest(body: unknown): ValidationResult<{
+  apiVersion: ApiVersion
+  items: ValidationResult<ValidatedComplimentRequest>[]
+}> {
+  if (!isRecord(body)) {
+    return {
+      ok: false,
+      errors: [
+        { field: '', code: 'invalid_body', message: 'Request body must be a JSON object' },
+      ],
+    }
+  }
+
+  const errors: FieldError[] = []
+  const apiVersion = readApiVersion(body, errors)
+
+  if (body.items === undefined || body.items === null) {
+    errors.push({ field: 'items', code: 'required', message: 'items is required' })
+  } else if (!Array.isArray(body.items)) {
+    errors.push({ field: 'items', code: 'invalid_type', message: 'items must be an array' })
+  } else if (body.items.length > MAX_BATCH_SIZE) {
+    errors.push({
+      field: 'items',
+      code: 'too_many_items',
+      message: `items may contain at most ${MAX_BATCH_SIZE} entries`,
+    })
+  } else if (batchAvoidFilterLength(body.items) > MAX_AVOID_FILTER_LENGTH) {
+    errors.push({
+      field: 'items',
+      code: 'too_large',
+      message: `avoidFilter may hold at most ${MAX_BLOOM_FILTER_BYTES} bytes of bits across a batch`,
+    })
+  }
+
+  if (errors.length > 0) {
+    return { ok: false, errors }
+  }
+
+  // Item field paths stay relative to the item; results carry the item index
+  const items = (body.items as unknown[]).map((item) => validateComplimentRequest(item))
+
+  return { ok: true, value: { apiVersion, items } }
+}
+
+// Build the error body for a failed validation
+export function validationErrorResponse(
+  errors: FieldError[],
+  apiVersion: ApiVersion = CURRENT_API_VERSION
+): ComplimentErrorResponse {
+  const code = errors.length === 1 && errors[0].field === '' ? errors[0].code : 'invalid_body'
+  return {
+    apiVersion,
+    error: code,
+    message: 'Invalid request body',
+    fieldErrors: errors,
+  }
+}
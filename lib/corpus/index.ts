@@ -0,0 +1,187 @@
+// Curated compliment corpus
+// Whole, hand-written compliments with tags and rarity, managed at runtime
+// through /api/admin/compliments. Backend is chosen by CORPUS_STORE:
+//   memory (default) - per-process, seeded from lib/fallbackCompliments.ts
+//   sqlite           - single file at CORPUS_SQLITE_PATH, seeded on first use
+//   prisma           - Postgres via the Compliment model (source = 'corpus')
+
+import { fallbackCompliments } from '../fallbackCompliments'
+import type { Rarity } from '../rarity'
+import { type Locale, DEFAULT_LOCALE, SUPPORTED_LOCALES } from '../locales'
+import { sha256Hex } from '../hash'
+
+export interface CorpusEntry {
+  id: string
+  text: string
+  hash: string // SHA-256 of the normalized text, same as issued compliment ids
+  tags: string[]
+  rarity: Rarity
+  locale: Locale
+  createdAt: string // ISO timestamp
+}
+
+// Fields an admin can set
+export interface CorpusInput {
+  text: string
+  tags: string[]
+  rarity: Rarity
+  locale: Locale
+}
+
+export interface CorpusListOptions {
+  tag?: string
+  locale?: Locale
+  limit?: number
+  offset?: number
+}
+
+export interface CorpusStore {
+  list(options?: CorpusListOptions): Promise<{ items: CorpusEntry[]; total: number }>
+  get(id: string): Promise<CorpusEntry | null>
+  findByHash(hash: string): Promise<CorpusEntry | null>
+  create(input: CorpusInput): Promise<CorpusEntry>
+  // Resolves null when the entry does not exist
+  update(id: string, input: CorpusInput): Promise<CorpusEntry | null>
+  // Resolves false when the entry does not exist
+  delete(id: string): Promise<boolean>
+}
+
+// Same normalization selectComplimentFromCandidates applies before hashing
+export function normalizeCorpusText(text: string): string {
+  return text.trim().replace(/\s+/g, ' ')
+}
+
+export function hashCorpusText(text: string): Promise<string> {
+  return sha256Hex(normalizeCorpusText(text))
+}
+
+// Seed input with its hash computed up front, so stores can insert it
+// synchronously (the SQLite seed runs in one transaction)
+export interface HashedCorpusInput extends CorpusInput {
+  hash: string
+}
+
+// Initial corpus content for stores that start empty: every locale's built-in list
+export function seedCorpusInputs(): Promise<HashedCorpusInput[]> {
+  return Promise.all(
+    SUPPORTED_LOCALES.flatMap((locale) =>
+      fallbackCompliments[locale].map(async ({ text, tags }) => ({
+        text,
+        tags,
+        rarity: 1 as const,
+        locale,
+        hash: await hashCorpusText(text),
+      }))
+    )
+  )
+}
+
+export type CorpusBackend = 'memory' | 'sqlite' | 'prisma'
+
+async function createCorpusStore(backend: CorpusBackend): Promise<CorpusStore> {
+  switch (backend) {
+    case 'memory': {
+      const { MemoryCorpusStore } = await import('./memoryStore')
+      return new MemoryCorpusStore(await seedCorpusInputs())
+    }
+    case 'sqlite': {
+      // better-sqlite3 is native; Next compiles this branch out of Edge bundles
+      if (process.env.NEXT_RUNTIME !== 'edge') {
+        const { SqliteCorpusStore } = await import('./sqliteStore')
+        return new SqliteCorpusStore(
+          process.env.CORPUS_SQLITE_PATH || '.data/corpus.db',
+          await seedCorpusInputs()
+        )
+      }
+      throw new Error('CORPUS_STORE=sqlite needs the Node.js runtime')
+    }
+    case 'prisma': {
+      // The default Prisma client needs Node; Next compiles this branch out of Edge bundles
+      if (process.env.NEXT_RUNTIME !== 'edge') {
+        const { PrismaCorpusStore } = await import('./prismaStore')
+        return new PrismaCorpusStore()
+      }
+      throw new Error('CORPUS_STORE=prisma needs the Node.js runtime')
+    }
+  }
+}
+
+// Keep one store per process (survives Next.js dev hot reloads)
+const globalForCorpus = globalThis as unknown as {
+  corpusStore?: Promise<CorpusStore>
+}
+
+export function getCorpusStore(): Promise<CorpusStore> {
+  if (!globalForCorpus.corpusStore) {
+    const backend = (process.env.CORPUS_STORE || 'memory') as CorpusBackend
+    if (!['memory', 'sqlite', 'prisma'].includes(backend)) {
+      throw new Error(`Unknown CORPUS_STORE backend: ${backend}`)
+    }
+    // Forget a failed init so the next call retries instead of failing forever
+    const store = createCorpusStore(backend).catch((error: unknown) => {
+      globalForCorpus.corpusStore = undefined
+      throw error
+    })
+    globalForCorpus.corpusStore = store
+  }
+  return globalForCorpus.corpusStore
+}
+
+// Share of plain compliments served straight from the corpus instead of the
+// grammar (CORPUS_SHARE, 0 to 1, default 0.2). Anything malformed falls back
+// to the default
+export const DEFAULT_CORPUS_SHARE = 0.2
+
+export function getCorpusShare(): number {
+  const share = Number(process.env.CORPUS_SHARE || DEFAULT_CORPUS_SHARE)
+  return Number.isFinite(share) && share >= 0 && share <= 1 ? share : DEFAULT_CORPUS_SHARE
+}
+
+export interface CuratedCompliment {
+  text: string
+  rarity: Rarity
+}
+
+function builtInCurated(locale: Locale): CuratedCompliment[] {
+  return fallbackCompliments[locale].map(({ text }) => ({ text, rarity: 1 }))
+}
+
+// The curated compliment a personal key names by hash (see lib/complimentKey.ts):
+// the corpus entry, else the built-in one the degraded path serves when the
+// store fails. Null once the entry is gone; never throws, like the lookup below
+export async function findCuratedCompliment(
+  locale: Locale,
+  hash: string
+): Promise<CuratedCompliment | null> {
+  try {
+    const entry = await (await getCorpusStore()).findByHash(hash)
+    if (entry) {
+      return { text: normalizeCorpusText(entry.text), rarity: entry.rarity }
+    }
+  } catch {
+    // Fall through to the built-in list
+  }
+  for (const candidate of builtInCurated(locale)) {
+    if ((await hashCorpusText(candidate.text)) === hash) {
+      return { ...candidate, text: normalizeCorpusText(candidate.text) }
+    }
+  }
+  return null
+}
+
+// Compliments in one locale for runtime selection, both next to the grammar
+// and on the degraded path. Never throws: the degraded path calls this when
+// something else has already failed, so it falls back to the built-in list
+export async function getCuratedCompliments(
+  locale: Locale = DEFAULT_LOCALE
+): Promise<CuratedCompliment[]> {
+  try {
+    const store = await getCorpusStore()
+    const { items } = await store.list({ locale })
+    return items.length > 0
+      ? items.map(({ text, rarity }) => ({ text, rarity }))
+      : builtInCurated(locale)
+  } catch {
+    return builtInCurated(locale)
+  }
+}
@@ -0,0 +1,65 @@
+// In-memory corpus store
+// Per-process only: admin edits are lost on restart
+
+import {
+  type CorpusEntry,
+  type CorpusInput,
+  type CorpusListOptions,
+  type CorpusStore,
+  type HashedCorpusInput,
+  hashCorpusText,
+} from './index'
+
+export class MemoryCorpusStore implements CorpusStore {
+  private entries = new Map<string, CorpusEntry>()
+
+  constructor(seed: HashedCorpusInput[] = []) {
+    seed.forEach(({ hash, ...input }) => {
+      const entry = this.toEntry(crypto.randomUUID(), input, hash, new Date().toISOString())
+      this.entries.set(entry.id, entry)
+    })
+  }
+
+  private toEntry(id: string, input: CorpusInput, hash: string, createdAt: string): CorpusEntry {
+    return { id, ...input, hash, createdAt }
+  }
+
+  async list(options: CorpusListOptions = {}): Promise<{ items: CorpusEntry[]; total: number }> {
+    const { tag, locale, offset = 0, limit } = options
+    const all = Array.from(this.entries.values()).filter(
+      (entry) => (!tag || entry.tags.includes(tag)) && (!locale || entry.locale === locale)
+    )
+    const items = all.slice(offset, limit === undefined ? undefined : offset + limit)
+    return { items, total: all.length }
+  }
+
+  async get(id: string): Promise<CorpusEntry | null> {
+    return this.entries.get(id) ?? null
+  }
+
+  async findByHash(hash: string): Promise<CorpusEntry | null> {
+    for (const entry of Array.from(this.entries.values())) {
+      if (entry.hash === hash) return entry
+    }
+    return null
+  }
+
+  async create(input: CorpusInput): Promise<CorpusEntry> {
+    const hash = await hashCorpusText(input.text)
+    const entry = this.toEntry(crypto.randomUUID(), input, hash, new Date().toISOString())
+    this.entries.set(entry.id, entry)
+    return entry
+  }
+
+  async update(id: string, input: CorpusInput): Promise<CorpusEntry | null> {
+    const existing = this.entries.get(id)
+    if (!existing) return null
+    const entry = this.toEntry(id, input, await hashCorpusText(input.text), existing.createdAt)
+    this.entries.set(id, entry)
+    return entry
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.entries.delete(id)
+  }
+}
@@ -0,0 +1,94 @@
+// Postgres corpus store via Prisma
+// Curated entries live in the Compliment model with source = 'corpus';
+// rows the issuance store creates for generated text use source = 'generated'
+
+import { PrismaClient } from '@prisma/client'
+import {
+  type CorpusEntry,
+  type CorpusInput,
+  type CorpusListOptions,
+  type CorpusStore,
+  hashCorpusText,
+} from './index'
+import type { Rarity } from '../rarity'
+import type { Locale } from '../locales'
+
+interface ComplimentRow {
+  id: string
+  text: string
+  textHash: string | null
+  tags: string[]
+  rarity: number
+  locale: string
+  createdAt: Date
+}
+
+async function toEntry(row: ComplimentRow): Promise<CorpusEntry> {
+  return {
+    id: row.id,
+    text: row.text,
+    hash: row.textHash ?? (await hashCorpusText(row.text)),
+    tags: row.tags,
+    rarity: row.rarity as Rarity,
+    locale: row.locale as Locale,
+    createdAt: row.createdAt.toISOString(),
+  }
+}
+
+export class PrismaCorpusStore implements CorpusStore {
+  private prisma = new PrismaClient()
+
+  async list(options: CorpusListOptions = {}): Promise<{ items: CorpusEntry[]; total: number }> {
+    const where = {
+      source: 'corpus',
+      ...(options.tag ? { tags: { has: options.tag } } : {}),
+      ...(options.locale ? { locale: options.locale } : {}),
+    }
+    const [rows, total]: [ComplimentRow[], number] = await Promise.all([
+      this.prisma.compliment.findMany({
+        where,
+        orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+        skip: options.offset,
+        take: options.limit,
+      }),
+      this.prisma.compliment.count({ where }),
+    ])
+    return { items: await Promise.all(rows.map(toEntry)), total }
+  }
+
+  async get(id: string): Promise<CorpusEntry | null> {
+    const row: ComplimentRow | null = await this.prisma.compliment.findFirst({
+      where: { id, source: 'corpus' },
+    })
+    return row ? toEntry(row) : null
+  }
+
+  async findByHash(hash: string): Promise<CorpusEntry | null> {
+    const row: ComplimentRow | null = await this.prisma.compliment.findFirst({
+      where: { textHash: hash, source: 'corpus' },
+    })
+    return row ? toEntry(row) : null
+  }
+
+  async create(input: CorpusInput): Promise<CorpusEntry> {
+    const row: ComplimentRow = await this.prisma.compliment.create({
+      data: { ...input, textHash: await hashCorpusText(input.text), source: 'corpus' },
+    })
+    return toEntry(row)
+  }
+
+  async update(id: string, input: CorpusInput): Promise<CorpusEntry | null> {
+    const { count } = await this.prisma.compliment.updateMany({
+      where: { id, source: 'corpus' },
+      data: { ...input, textHash: await hashCorpusText(input.text) },
+    })
+    return count > 0 ? this.get(id) : null
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const { count } = await this.prisma.compliment.deleteMany({
+      where: { id, source: 'corpus' },
+    })
+    return count > 0
+  }
+}
@@ -0,0 +1,146 @@
+// SQLite-file corpus store
+// Uses the same compliments table layout as the issuance store, marking
+// curated rows with source = 'corpus'
+
+import crypto from 'crypto'
+import fs from 'fs'
+import path from 'path'
+import Database from 'better-sqlite3'
+import {
+  type CorpusEntry,
+  type CorpusInput,
+  type CorpusListOptions,
+  type CorpusStore,
+  type HashedCorpusInput,
+  hashCorpusText,
+} from './index'
+import type { Rarity } from '../rarity'
+import type { Locale } from '../locales'
+
+interface Row {
+  id: string
+  text: string
+  text_hash: string
+  tags: string // JSON array
+  rarity: number
+  locale: string
+  created_at: string
+}
+
+function toEntry(row: Row): CorpusEntry {
+  return {
+    id: row.id,
+    text: row.text,
+    hash: row.text_hash,
+    tags: JSON.parse(row.tags),
+    rarity: row.rarity as Rarity,
+    locale: row.locale as Locale,
+    createdAt: row.created_at,
+  }
+}
+
+export class SqliteCorpusStore implements CorpusStore {
+  private db: Database.Database
+
+  constructor(filename: string, seed: HashedCorpusInput[] = []) {
+    fs.mkdirSync(path.dirname(filename), { recursive: true })
+    this.db = new Database(filename)
+    this.db.pragma('journal_mode = WAL')
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS corpus (
+        id TEXT PRIMARY KEY,
+        text TEXT NOT NULL,
+        text_hash TEXT NOT NULL UNIQUE,
+        tags TEXT NOT NULL DEFAULT '[]',
+        rarity INTEGER NOT NULL DEFAULT 1,
+        locale TEXT NOT NULL DEFAULT 'en',
+        created_at TEXT NOT NULL
+      );
+    `)
+
+    // Files created before locales existed lack the column; their rows are English
+    const columns = this.db.prepare('PRAGMA table_info(corpus)').all() as { name: string }[]
+    if (!columns.some((column) => column.name === 'locale')) {
+      this.db.exec("ALTER TABLE corpus ADD COLUMN locale TEXT NOT NULL DEFAULT 'en'")
+    }
+
+    const { count } = this.db.prepare('SELECT COUNT(*) AS count FROM corpus').get() as {
+      count: number
+    }
+    if (count === 0 && seed.length > 0) {
+      const insertAll = this.db.transaction((inputs: HashedCorpusInput[]) => {
+        inputs.forEach(({ hash, ...input }) => this.insert(input, hash))
+      })
+      insertAll(seed)
+    }
+  }
+
+  private insert(input: CorpusInput, hash: string): CorpusEntry {
+    const row: Row = {
+      id: crypto.randomUUID(),
+      text: input.text,
+      text_hash: hash,
+      tags: JSON.stringify(input.tags),
+      rarity: input.rarity,
+      locale: input.locale,
+      created_at: new Date().toISOString(),
+    }
+    this.db
+      .prepare(
+        'INSERT INTO corpus (id, text, text_hash, tags, rarity, locale, created_at) VALUES (@id, @text, @text_hash, @tags, @rarity, @locale, @created_at)'
+      )
+      .run(row)
+    return toEntry(row)
+  }
+
+  async list(options: CorpusListOptions = {}): Promise<{ items: CorpusEntry[]; total: number }> {
+    const { tag, locale, offset = 0, limit = -1 } = options
+    const conditions = [
+      tag && 'EXISTS (SELECT 1 FROM json_each(corpus.tags) WHERE value = @tag)',
+      locale && 'locale = @locale',
+    ].filter(Boolean)
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''
+    const rows = this.db
+      .prepare(`SELECT * FROM corpus ${where} ORDER BY created_at, id LIMIT @limit OFFSET @offset`)
+      .all({ tag, locale, limit, offset }) as Row[]
+    const { total } = this.db
+      .prepare(`SELECT COUNT(*) AS total FROM corpus ${where}`)
+      .get({ tag, locale }) as { total: number }
+    return { items: rows.map(toEntry), total }
+  }
+
+  async get(id: string): Promise<CorpusEntry | null> {
+    const row = this.db.prepare('SELECT * FROM corpus WHERE id = ?').get(id) as Row | undefined
+    return row ? toEntry(row) : null
+  }
+
+  async findByHash(hash: string): Promise<CorpusEntry | null> {
+    const row = this.db.prepare('SELECT * FROM corpus WHERE text_hash = ?').get(hash) as
+      | Row
+      | undefined
+    return row ? toEntry(row) : null
+  }
+
+  async create(input: CorpusInput): Promise<CorpusEntry> {
+    return this.insert(input, await hashCorpusText(input.text))
+  }
+
+  async update(id: string, input: CorpusInput): Promise<CorpusEntry | null> {
+    const hash = await hashCorpusText(input.text)
+    const result = this.db
+      .prepare('UPDATE corpus SET text = ?, text_hash = ?, tags = ?, rarity = ?, locale = ? WHERE id = ?')
+      .run(
+        input.text,
+        hash,
+        JSON.stringify(input.tags),
+        input.rarity,
+        input.locale,
+        id
+      )
+    return result.changes > 0 ? this.get(id) : null
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.db.prepare('DELETE FROM corpus WHERE id = ?').run(id).changes > 0
+  }
+}
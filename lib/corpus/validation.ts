@@ -0,0 +1,130 @@
+// Validation for admin corpus writes
+// Field checks are synchronous; the duplicate-hash check needs the store
+
+import type { FieldError, ValidationResult } from '../complimentSchema'
+import {
+  type CorpusInput,
+  type CorpusStore,
+  hashCorpusText,
+  normalizeCorpusText,
+} from './index'
+import { type Rarity, isRarity } from '../rarity'
+import { type Locale, DEFAULT_LOCALE, SUPPORTED_LOCALES, isLocale } from '../locales'
+
+// Allowed tags: content themes plus the generator's style families
+export const CORPUS_TAGS = [
+  'insight',
+  'presence',
+  'growth',
+  'communication',
+  'affirmation',
+  'calm',
+  'exploratory',
+  'decisive',
+  'balanced',
+] as const
+
+export const MIN_TEXT_LENGTH = 10
+export const MAX_TEXT_LENGTH = 200
+export const MAX_TAGS = 5
+export const MAX_IMPORT_SIZE = 500
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+// Validate one create/update body; text is returned normalized
+export function validateCorpusInput(body: unknown): ValidationResult<CorpusInput> {
+  if (!isRecord(body)) {
+    return {
+      ok: false,
+      errors: [{ field: '', code: 'invalid_body', message: 'Body must be a JSON object' }],
+    }
+  }
+
+  const errors: FieldError[] = []
+
+  let text = ''
+  if (body.text === undefined || body.text === null) {
+    errors.push({ field: 'text', code: 'required', message: 'text is required' })
+  } else if (typeof body.text !== 'string') {
+    errors.push({ field: 'text', code: 'invalid_type', message: 'text must be a string' })
+  } else {
+    text = normalizeCorpusText(body.text)
+    if (text.length < MIN_TEXT_LENGTH || text.length > MAX_TEXT_LENGTH) {
+      errors.push({
+        field: 'text',
+        code: 'out_of_range',
+        message: `text must be ${MIN_TEXT_LENGTH}-${MAX_TEXT_LENGTH} characters`,
+      })
+    }
+  }
+
+  let tags: string[] = []
+  if (body.tags !== undefined) {
+    if (!Array.isArray(body.tags) || body.tags.some((t) => typeof t !== 'string')) {
+      errors.push({ field: 'tags', code: 'invalid_type', message: 'tags must be an array of strings' })
+    } else if (body.tags.length > MAX_TAGS) {
+      errors.push({
+        field: 'tags',
+        code: 'too_many_items',
+        message: `tags may contain at most ${MAX_TAGS} entries`,
+      })
+    } else {
+      tags = Array.from(new Set(body.tags as string[]))
+      tags.forEach((tag, i) => {
+        if (!(CORPUS_TAGS as readonly string[]).includes(tag)) {
+          errors.push({
+            field: `tags[${i}]`,
+            code: 'unknown_tag',
+            message: `tags[${i}] must be one of ${CORPUS_TAGS.join(', ')}`,
+          })
+        }
+      })
+    }
+  }
+
+  let rarity: Rarity = 1
+  if (body.rarity !== undefined) {
+    if (!isRarity(body.rarity)) {
+      errors.push({ field: 'rarity', code: 'out_of_range', message: 'rarity must be 1, 2 or 3' })
+    } else {
+      rarity = body.rarity
+    }
+  }
+
+  let locale: Locale = DEFAULT_LOCALE
+  if (body.locale !== undefined) {
+    if (!isLocale(body.locale)) {
+      errors.push({
+        field: 'locale',
+        code: 'invalid_format',
+        message: `locale must be one of ${SUPPORTED_LOCALES.join(', ')}`,
+      })
+    } else {
+      locale = body.locale
+    }
+  }
+
+  if (errors.length > 0) {
+    return { ok: false, errors }
+  }
+  return { ok: true, value: { text, tags, rarity, locale } }
+}
+
+// Reject text whose hash already belongs to another entry
+export async function checkDuplicateHash(
+  store: CorpusStore,
+  text: string,
+  exceptId?: string
+): Promise<FieldError | null> {
+  const existing = await store.findByHash(await hashCorpusText(text))
+  if (existing && existing.id !== exceptId) {
+    return {
+      field: 'text',
+      code: 'duplicate_hash',
+      message: `text duplicates existing entry ${existing.id}`,
+    }
+  }
+  return null
+}
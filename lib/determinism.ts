@@ -0,0 +1,55 @@
+// Injectable clock and random sources
+// Everything nondeterministic in compliment issuance (session nonces, the
+// collision fallback) reads time and randomness through these, so a
+// client-supplied seed makes identical requests produce identical responses
+
+import { hashToSeed } from './entropy'
+import { createPrng } from './prng'
+import { sha256Hex } from './hash'
+
+export interface Clock {
+  now(): number // ms timestamp
+}
+
+export interface RandomSource {
+  next(): number // uniform in [0, 1)
+}
+
+export interface Sources {
+  clock: Clock
+  random: RandomSource
+}
+
+export const systemClock: Clock = { now: () => Date.now() }
+
+export const systemRandom: RandomSource = { next: () => Math.random() }
+
+export const systemSources: Sources = { clock: systemClock, random: systemRandom }
+
+// Clock frozen at a given time
+export function fixedClock(time: number): Clock {
+  return { now: () => time }
+}
+
+// Random stream from the default PRNG (lib/prng) keyed by SHA-256(seed).
+// Hashing is async (lib/hash.ts), so only the key is hashed and the draws
+// stay synchronous
+export async function seededRandom(seed: string): Promise<RandomSource> {
+  const rng = createPrng(hashToSeed(await sha256Hex(seed)))
+  return { next: () => rng.nextDouble() }
+}
+
+// Seeded requests skip the issuance store (see issueUniqueCompliment), so
+// they are a QA tool: on in development, off in production unless
+// SEEDED_MODE=true. SEEDED_MODE=false turns them off everywhere
+export function isSeededModeEnabled(): boolean {
+  const flag = process.env.SEEDED_MODE
+  return flag ? flag === 'true' : process.env.NODE_ENV !== 'production'
+}
+
+// Sources for a request: seeded and frozen when a seed is given, system otherwise
+export async function sourcesForSeed(seed?: string): Promise<Sources> {
+  return seed === undefined
+    ? systemSources
+    : { clock: fixedClock(0), random: await seededRandom(seed) }
+}
@@ -2,7 +2,10 @@
 // Uses continuous normalization, fingerprinting, and deterministic PRNG
 // No bucket-based if-statements; all selection is continuous and deterministic
 
-import crypto from 'crypto'
+import { type Tone, DEFAULT_TONE, isTone } from './tones'
+import { createPrng } from './prng'
+import { hmacSha256Hex, sha256Hex } from './hash'
+import type { ReadonlyAvoidSet } from './avoidSet'
 
 // Continuous normalization function: smooth01(x, k) = 1 - exp(-x/k)
 // Preserves fine-grained differences and maps to [0, 1)
@@ -26,40 +29,16 @@ export interface UserSignals {
   idleMs: number
 }
 
-// Deterministic PRNG using SplitMix64
-// Seed is a 64-bit integer derived from hash
-export class SplitMix64 {
-  private state: bigint
-
-  constructor(seed: bigint) {
-    this.state = seed
-  }
-
-  next(): number {
-    // SplitMix64 algorithm
-    this.state = (this.state + 0x9e3779b97f4a7c15n) & 0xffffffffffffffffn
-    let z = this.state
-    z = ((z ^ (z >> 30n)) * 0xbf58476d1ce4e5b9n) & 0xffffffffffffffffn
-    z = ((z ^ (z >> 27n)) * 0x94d049bb133111ebn) & 0xffffffffffffffffn
-    z = (z ^ (z >> 31n)) & 0xffffffffffffffffn
-    // Convert to [0, 1) range
-    return Number(z) / 0x100000000
-  }
-
-  nextInt(max: number): number {
-    return Math.floor(this.next() * max)
-  }
-
-  nextDouble(): number {
-    return this.next()
-  }
+// Identity part of a fingerprint: stable per browser and device. The routes
+// reduce it to a keyed subject digest (see lib/fingerprint.ts)
+export function rawIdentity(userKey: string, env: EnvData): string {
+  return `env:${env.w}x${env.h}:${env.dpr}:${env.tzOffset}|user:${userKey}`
 }
 
-// Build fingerprint string from all inputs
+// Build fingerprint string from the signals, an identity and the nonce
 function buildFingerprint(
   signals: UserSignals,
-  userKey: string,
-  env: EnvData,
+  identity: string,
   sessionNonce?: string
 ): string {
   // Normalize signals with different k values to preserve granularity
@@ -75,8 +54,7 @@ function buildFingerprint(
     `rawM:${signals.pixelsMoved}`,
     `rawC:${signals.clicks}`,
     `rawI:${signals.idleMs}`,
-    `env:${env.w}x${env.h}:${env.dpr}:${env.tzOffset}`,
-    `user:${userKey}`,
+    identity,
   ]
 
   if (sessionNonce) {
@@ -86,9 +64,9 @@ function buildFingerprint(
   return parts.join('|')
 }
 
-// Hash fingerprint using SHA-256
-export function hashFingerprint(fingerprint: string): string {
-  return crypto.createHash('sha256').update(fingerprint).digest('hex')
+// Hash fingerprint using SHA-256 (Web Crypto or Node, see lib/hash.ts)
+export function hashFingerprint(fingerprint: string): Promise<string> {
+  return sha256Hex(fingerprint)
 }
 
 // Convert hash to seed (first 16 hex chars = 64 bits)
@@ -97,16 +75,38 @@ export function hashToSeed(hash: string): bigint {
 }
 
 // Build fingerprint and return hash (for external use)
+// Pure: per-request variation comes only from sessionNonce (see lib/determinism.ts)
 export function computeEntropyKey(
   signals: UserSignals,
   userKey: string,
   env: EnvData,
   sessionNonce?: string
-): string {
-  const fingerprint = buildFingerprint(signals, userKey, env, sessionNonce)
+): Promise<string> {
+  const fingerprint = buildFingerprint(signals, rawIdentity(userKey, env), sessionNonce)
   return hashFingerprint(fingerprint)
 }
 
+// Entropy key for a subject digest instead of the raw identity (plain
+// fingerprint mode, see lib/fingerprint.ts)
+export function computeSubjectEntropyKey(
+  signals: UserSignals,
+  subject: string,
+  sessionNonce?: string
+): Promise<string> {
+  return hashFingerprint(buildFingerprint(signals, `subject:${subject}`, sessionNonce))
+}
+
+// Privacy-mode entropy key: the identity is an opaque subject digest and the
+// fingerprint is keyed with a server-side salt (HMAC-SHA-256)
+export function computeKeyedEntropyKey(
+  signals: UserSignals,
+  subject: string,
+  salt: string,
+  sessionNonce?: string
+): Promise<string> {
+  return hmacSha256Hex(salt, buildFingerprint(signals, `subject:${subject}`, sessionNonce))
+}
+
 // Select compliment using deterministic PRNG
 // Returns the compliment ID and text
 export async function selectCompliment(
@@ -122,12 +122,12 @@ export async function selectCompliment(
   }
 
   // Build fingerprint and hash
-  const fingerprint = buildFingerprint(signals, userKey, env, sessionNonce)
-  const hash = hashFingerprint(fingerprint)
+  const fingerprint = buildFingerprint(signals, rawIdentity(userKey, env), sessionNonce)
+  const hash = await hashFingerprint(fingerprint)
   const seed = hashToSeed(hash)
 
   // Create PRNG from seed
-  const rng = new SplitMix64(seed)
+  const rng = createPrng(seed)
 
   // Filter out already issued compliments
   const candidateIds = availableComplimentIds.filter(
@@ -155,13 +155,14 @@ export async function selectCompliment(
 }
 
 // Client-side helper to get or create user key
+const USER_KEY_STORAGE_KEY = 'shipmas_user_key'
+
 export function getUserKey(): string {
   if (typeof window === 'undefined') {
     return 'server-user'
   }
 
-  const STORAGE_KEY = 'shipmas_user_key'
-  let userKey = localStorage.getItem(STORAGE_KEY)
+  let userKey = localStorage.getItem(USER_KEY_STORAGE_KEY)
 
   if (!userKey) {
     // Generate UUID v4
@@ -173,85 +174,68 @@ export function getUserKey(): string {
         return v.toString(16)
       }
     )
-    localStorage.setItem(STORAGE_KEY, userKey)
+    localStorage.setItem(USER_KEY_STORAGE_KEY, userKey)
   }
 
   return userKey
 }
 
-// Client-side helper to track issued compliments (by hash)
-export function getSeenComplimentHashes(): string[] {
+// Adopt a user key from another browser (see lib/recoveryCode.ts)
+export function setUserKey(userKey: string): void {
   if (typeof window === 'undefined') {
-    return []
+    return
   }
 
-  const STORAGE_KEY = 'shipmas_seen_hashes'
-  const stored = localStorage.getItem(STORAGE_KEY)
-  return stored ? JSON.parse(stored) : []
+  localStorage.setItem(USER_KEY_STORAGE_KEY, userKey)
 }
 
-export function addSeenComplimentHash(hash: string): void {
-  if (typeof window === 'undefined') {
-    return
-  }
+// Client-side helpers for the chosen tone, stored next to the user key
+const TONE_STORAGE_KEY = 'shipmas_tone'
 
-  const STORAGE_KEY = 'shipmas_seen_hashes'
-  const current = getSeenComplimentHashes()
-  if (!current.includes(hash)) {
-    current.push(hash)
-    // Cap at 1000 to prevent localStorage bloat
-    if (current.length > 1000) {
-      current.shift()
-    }
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(current))
+export function getTone(): Tone {
+  if (typeof window === 'undefined') {
+    return DEFAULT_TONE
   }
-}
 
-// Get last N hashes for avoidHashes payload (keep payload small)
-export function getAvoidHashes(limit: number = 200): string[] {
-  const all = getSeenComplimentHashes()
-  return all.slice(-limit)
+  const stored = localStorage.getItem(TONE_STORAGE_KEY)
+  return isTone(stored) ? stored : DEFAULT_TONE
 }
 
-// Legacy functions for backward compatibility (now use hash-based)
-export function getIssuedComplimentIds(): string[] {
-  return getSeenComplimentHashes()
-}
+export function setTone(tone: Tone): void {
+  if (typeof window === 'undefined') {
+    return
+  }
 
-export function addIssuedComplimentId(id: string): void {
-  addSeenComplimentHash(id)
+  localStorage.setItem(TONE_STORAGE_KEY, tone)
 }
 
 // Select from candidate compliments using deterministic PRNG
+// Seeded by an entropy key (computeEntropyKey or computeKeyedEntropyKey)
 // Returns the selected compliment text and its hash
-export function selectComplimentFromCandidates(
-  signals: UserSignals,
-  userKey: string,
-  env: EnvData,
+export async function selectComplimentFromCandidates(
+  entropyKey: string,
   candidates: string[],
-  avoidHashes: Set<string>,
-  sessionNonce?: string
-): { complimentText: string; complimentHash: string; fingerprintHash: string } {
+  avoidHashes: ReadonlyAvoidSet
+): Promise<{ complimentText: string; complimentHash: string; fingerprintHash: string }> {
   if (candidates.length === 0) {
     throw new Error('No compliments available')
   }
 
-  // Build fingerprint and hash
-  const fingerprint = buildFingerprint(signals, userKey, env, sessionNonce)
-  const hash = hashFingerprint(fingerprint)
-  const seed = hashToSeed(hash)
+  const seed = hashToSeed(entropyKey)
 
   // Create PRNG from seed
-  const rng = new SplitMix64(seed)
+  const rng = createPrng(seed)
 
   // Hash each candidate and filter out avoided ones
-  const candidateHashes = candidates.map((text) => {
-    const normalized = text.trim().replace(/\s+/g, ' ')
-    return {
-      text: normalized,
-      hash: hashFingerprint(normalized),
-    }
-  })
+  const candidateHashes = await Promise.all(
+    candidates.map(async (text) => {
+      const normalized = text.trim().replace(/\s+/g, ' ')
+      return {
+        text: normalized,
+        hash: await hashFingerprint(normalized),
+      }
+    })
+  )
 
   // Filter out duplicates within batch and avoided hashes
   const seenInBatch = new Set<string>()
@@ -272,13 +256,13 @@ export function selectComplimentFromCandidates(
     while (attempts < maxAttempts) {
       const candidateIndex = rng.nextInt(candidates.length)
       const candidateText = candidates[candidateIndex].trim().replace(/\s+/g, ' ')
-      const candidateHash = hashFingerprint(candidateText)
+      const candidateHash = await hashFingerprint(candidateText)
       
       if (!avoidHashes.has(candidateHash)) {
         return {
           complimentText: candidateText,
           complimentHash: candidateHash,
-          fingerprintHash: hash,
+          fingerprintHash: entropyKey,
         }
       }
       attempts++
@@ -289,8 +273,8 @@ export function selectComplimentFromCandidates(
     const fallbackText = candidates[0].trim().replace(/\s+/g, ' ')
     return {
       complimentText: fallbackText,
-      complimentHash: hashFingerprint(fallbackText),
-      fingerprintHash: hash,
+      complimentHash: await hashFingerprint(fallbackText),
+      fingerprintHash: entropyKey,
     }
   }
 
@@ -301,7 +285,7 @@ export function selectComplimentFromCandidates(
   return {
     complimentText: selected.text,
     complimentHash: selected.hash,
-    fingerprintHash: hash,
+    fingerprintHash: entropyKey,
   }
 }
 
@@ -1,37 +1,61 @@
 // Concurrency-limited fetch pool for batch API requests
 // Fetches N items from an API with max concurrency limit
 
-export async function fetchPool<T>(
-  url: string,
-  count: number,
+// Outcome of one task in a pool run, in input order
+export type PoolResult<R> =
+  | { ok: true; value: R }
+  | { ok: false; error: Error }
+
+// Run `task` over every item with at most `concurrency` tasks in flight
+// Unlike fetchPool, failures are reported per item instead of being dropped
+export async function runPool<T, R>(
+  items: readonly T[],
   concurrency: number,
-  fetchFn: (url: string) => Promise<T>
-): Promise<T[]> {
-  const results: T[] = []
-  const errors: Error[] = []
+  task: (item: T, index: number) => Promise<R> | R
+): Promise<PoolResult<R>[]> {
+  const results: PoolResult<R>[] = new Array(items.length)
   let index = 0
 
   async function worker(): Promise<void> {
-    while (index < count) {
+    while (index < items.length) {
       const currentIndex = index++
       try {
-        const result = await fetchFn(url)
-        results[currentIndex] = result
+        const value = await task(items[currentIndex], currentIndex)
+        results[currentIndex] = { ok: true, value }
       } catch (error) {
-        errors.push(error instanceof Error ? error : new Error(String(error)))
-        // Continue fetching even if some fail
+        results[currentIndex] = {
+          ok: false,
+          error: error instanceof Error ? error : new Error(String(error)),
+        }
       }
     }
   }
 
   // Start workers up to concurrency limit
-  const workers = Array.from({ length: Math.min(concurrency, count) }, () =>
-    worker()
+  const workers = Array.from(
+    { length: Math.max(1, Math.min(concurrency, items.length)) },
+    () => worker()
   )
 
   await Promise.all(workers)
 
-  // Filter out undefined results (failed fetches)
-  return results.filter((r): r is T => r !== undefined)
+  return results
 }
 
+export async function fetchPool<T>(
+  url: string,
+  count: number,
+  concurrency: number,
+  fetchFn: (url: string) => Promise<T>
+): Promise<T[]> {
+  const results = await runPool(
+    Array.from({ length: count }, () => url),
+    concurrency,
+    fetchFn
+  )
+
+  // Filter out failed fetches (continue fetching even if some fail)
+  return results
+    .filter((r): r is { ok: true; value: T } => r.ok && r.value !== undefined)
+    .map((r) => r.value)
+}
@@ -0,0 +1,131 @@
+// Fingerprint modes, chosen by FINGERPRINT_MODE. In both, the raw identity
+// (user key, viewport, DPR, timezone) is reduced to a keyed subject digest
+// and personal keys carry only that, so a shared key never hands out the
+// user key that recovery codes transfer:
+//   plain (default) - the subject is keyed with a fixed label and entropy keys
+//                     are SHA-256 of the signals, subject and nonce
+//   hmac            - privacy mode: the subject and every hash are keyed with
+//                     a salt derived from FINGERPRINT_SECRET, and the salt
+//                     rotates every FINGERPRINT_SALT_ROTATION_DAYS. Personal
+//                     keys carry the salt epoch and are signed with the salt
+// Salts are derived, not stored: HMAC(secret, epoch). A key from any earlier
+// epoch still rebuilds, and keys issued under a retired secret keep working
+// while it is listed in FINGERPRINT_PREVIOUS_SECRETS (see decodeComplimentKey)
+
+import {
+  type EnvData,
+  type UserSignals,
+  computeKeyedEntropyKey,
+  computeSubjectEntropyKey,
+  rawIdentity,
+} from './entropy'
+import { hmacSha256Hex } from './hash'
+
+export const FINGERPRINT_MODES = ['plain', 'hmac'] as const
+export type FingerprintMode = (typeof FINGERPRINT_MODES)[number]
+
+// Who a compliment was made for. Privacy identities hold the epoch's salt in
+// memory only; keys serialize the subject (and the epoch)
+export type FingerprintIdentity =
+  | { mode: 'plain'; subject: string }
+  | { mode: 'hmac'; epoch: number; subject: string; salt: string }
+
+export interface FingerprintConfig {
+  mode: FingerprintMode
+  secrets: string[] // current secret first, then retired ones still accepted
+  rotationMs: number
+}
+
+// Subject digests are truncated to 128 bits to keep personal keys short
+const SUBJECT_HEX_LENGTH = 32
+
+// HMAC key of plain subjects. Not a secret: user keys are random UUIDs, so
+// the digest cannot be walked back to one, and it only separates subjects
+// from other SHA-256 uses
+const PLAIN_SUBJECT_KEY = 'fingerprint-subject'
+
+const DEFAULT_ROTATION_DAYS = 7
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export function isFingerprintMode(value: unknown): value is FingerprintMode {
+  return (FINGERPRINT_MODES as readonly unknown[]).includes(value)
+}
+
+// Read from the environment on every call; hmac mode without a secret throws
+// so a misconfigured deployment fails loudly instead of issuing plain keys
+export function getFingerprintConfig(): FingerprintConfig {
+  const mode = process.env.FINGERPRINT_MODE || 'plain'
+  if (!isFingerprintMode(mode)) {
+    throw new Error(`Unknown FINGERPRINT_MODE: ${mode}`)
+  }
+  const current = process.env.FINGERPRINT_SECRET?.trim() ?? ''
+  if (mode === 'hmac' && !current) {
+    throw new Error('FINGERPRINT_MODE=hmac needs FINGERPRINT_SECRET')
+  }
+  const previous = (process.env.FINGERPRINT_PREVIOUS_SECRETS ?? '').split(',').map((secret) => secret.trim())
+  const secrets = [current, ...previous].filter(Boolean)
+  const days = Number(process.env.FINGERPRINT_SALT_ROTATION_DAYS)
+  return {
+    mode,
+    secrets,
+    rotationMs: (Number.isFinite(days) && days > 0 ? days : DEFAULT_ROTATION_DAYS) * DAY_MS,
+  }
+}
+
+export function saltEpoch(now: number, rotationMs: number): number {
+  return Math.max(0, Math.floor(now / rotationMs))
+}
+
+export function saltFor(secret: string, epoch: number): Promise<string> {
+  return hmacSha256Hex(secret, `fingerprint-salt:${epoch}`)
+}
+
+// Identity for a request. `now` picks the salt epoch; seeded requests pass
+// their frozen clock, so replays stay byte-identical
+export async function resolveIdentity(
+  userKey: string,
+  env: EnvData,
+  now: number,
+  config: FingerprintConfig = getFingerprintConfig()
+): Promise<FingerprintIdentity> {
+  if (config.mode === 'plain') {
+    return { mode: 'plain', subject: await subjectFor(PLAIN_SUBJECT_KEY, userKey, env) }
+  }
+  const epoch = saltEpoch(now, config.rotationMs)
+  const salt = await saltFor(config.secrets[0], epoch)
+  return { mode: 'hmac', epoch, subject: await subjectFor(salt, userKey, env), salt }
+}
+
+async function subjectFor(key: string, userKey: string, env: EnvData): Promise<string> {
+  return (await hmacSha256Hex(key, rawIdentity(userKey, env))).substring(0, SUBJECT_HEX_LENGTH)
+}
+
+export function isSubject(value: unknown): value is string {
+  return typeof value === 'string' && new RegExp(`^[0-9a-f]{${SUBJECT_HEX_LENGTH}}$`).test(value)
+}
+
+// Entropy key of one generation attempt for an identity
+export function identityEntropyKey(
+  identity: FingerprintIdentity,
+  signals: UserSignals,
+  sessionNonce?: string
+): Promise<string> {
+  return identity.mode === 'plain'
+    ? computeSubjectEntropyKey(signals, identity.subject, sessionNonce)
+    : computeKeyedEntropyKey(signals, identity.subject, identity.salt, sessionNonce)
+}
+
+// User ids for server-side records (issuance store), the one new records go
+// under first. Privacy mode keys them with each configured secret but not
+// the rotating salt, so per-user uniqueness survives salt rotation, and
+// history recorded under a secret in FINGERPRINT_PREVIOUS_SECRETS is still
+// found after the secret rotates
+export async function storageUserKeys(
+  userKey: string,
+  config: FingerprintConfig = getFingerprintConfig()
+): Promise<string[]> {
+  if (config.mode === 'plain') {
+    return [userKey]
+  }
+  return Promise.all(config.secrets.map((secret) => hmacSha256Hex(secret, `user:${userKey}`)))
+}
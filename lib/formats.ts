@@ -0,0 +1,13 @@
+// Output formats
+// `compliment` is the single sentence-group the page reveals in its heading;
+// `letter` is a paragraph-length note with a greeting, several traits and
+// evidence lines of different categories, the user's signals and a sign-off.
+// Client-safe: the page reads ?format= with these
+
+export const FORMATS = ['compliment', 'letter'] as const
+export type Format = (typeof FORMATS)[number]
+export const DEFAULT_FORMAT: Format = 'compliment'
+
+export function isFormat(value: unknown): value is Format {
+  return (FORMATS as readonly unknown[]).includes(value)
+}
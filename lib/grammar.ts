@@ -0,0 +1,391 @@
+// Declarative grammar engine for generated text
+// A grammar (JSON, see lib/locales/<locale>/grammar.json) has:
+//   styles     - named weight formulas over the style vector
+//   agreement  - tokens like <a> resolved from the word that follows them
+//   compliment - the fragments of a compliment, each a template
+//   rules      - named lists of entries; entries are templates themselves
+// Templates reference rules with {name}; nested references expand recursively.
+// Expansion draws from the caller's PRNG (lib/prng) once per reference, in order,
+// so the same key always expands to the same text.
+// Entries may carry a rarity; an expansion at tier N picks from a rule's tier-N
+// entries when it has any, and from its common entries otherwise.
+// Callers may pass a trace array to record every draw (see GrammarDraw).
+// An overlay (a tone, see lib/tones.ts) replaces whole rules and styles by name
+
+import type { Prng } from './prng'
+import { type Rarity, isRarity } from './rarity'
+
+export interface StyleVector {
+  tempo: number
+  softness: number
+  spark: number
+}
+
+// `balance` is derived: 1 when tempo and softness are equal
+export type StyleAxis = keyof StyleVector | 'balance'
+
+// weight = base + axis * scale (base alone when axis is omitted)
+export interface WeightFormula {
+  base: number
+  axis?: StyleAxis
+  scale?: number
+}
+
+export interface GrammarEntry {
+  text: string
+  style?: string // key of Grammar.styles; untagged entries use the rule weight
+  rarity?: Rarity // omitted = common
+}
+
+export interface GrammarRule {
+  weight: WeightFormula
+  entries: GrammarEntry[]
+}
+
+export interface AgreementRule {
+  match: RegExp // tested against the next word
+  then: string
+  else: string
+}
+
+export interface GrammarFragment {
+  slot: string
+  template: string
+}
+
+export interface Grammar {
+  styles: Record<string, WeightFormula>
+  agreement: Record<string, AgreementRule>
+  compliment: GrammarFragment[]
+  rules: Record<string, GrammarRule>
+}
+
+export interface Expansion {
+  text: string
+  rarity: Rarity // highest rarity among the entries used
+}
+
+// One weighted pick made during expansion, in draw order
+export interface GrammarDraw {
+  rule: string
+  depth: number // 0 for references in the template itself
+  draw: number // the PRNG value in [0, 1) that made the pick
+  candidates: { text: string; weight: number; probability: number }[]
+  picked: number // index into candidates
+}
+
+export class GrammarError extends Error {
+  constructor(message: string) {
+    super(`Invalid grammar: ${message}`)
+    this.name = 'GrammarError'
+  }
+}
+
+const GRAMMAR_VERSION = 1
+const STYLE_AXES: StyleAxis[] = ['tempo', 'softness', 'spark', 'balance']
+const DEFAULT_WEIGHT: WeightFormula = { base: 1 }
+
+// Guards against rules that (directly or indirectly) reference themselves
+const MAX_DEPTH = 8
+
+const REFERENCE_PATTERN = /\{(\w+)\}/g
+const AGREEMENT_PATTERN = /<(\w+)>/g
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function readWeight(value: unknown, path: string): WeightFormula {
+  if (!isRecord(value) || typeof value.base !== 'number') {
+    throw new GrammarError(`${path} must be an object with a numeric base`)
+  }
+  if (value.axis === undefined) {
+    return { base: value.base }
+  }
+  if (!STYLE_AXES.includes(value.axis as StyleAxis) || typeof value.scale !== 'number') {
+    throw new GrammarError(`${path} needs an axis (${STYLE_AXES.join(', ')}) and a numeric scale`)
+  }
+  return { base: value.base, axis: value.axis as StyleAxis, scale: value.scale }
+}
+
+// Rule names a template references, in draw order
+export function templateReferences(template: string): string[] {
+  return Array.from(template.matchAll(REFERENCE_PATTERN), ([, name]) => name)
+}
+
+// Check a template's references and agreement tokens against the grammar
+function checkTemplate(
+  template: string,
+  path: string,
+  ruleNames: string[],
+  agreementNames: string[]
+): void {
+  Array.from(template.matchAll(REFERENCE_PATTERN)).forEach(([, name]) => {
+    if (!ruleNames.includes(name)) {
+      throw new GrammarError(`${path} references unknown rule {${name}}`)
+    }
+  })
+  Array.from(template.matchAll(AGREEMENT_PATTERN)).forEach(([, name]) => {
+    if (!agreementNames.includes(name)) {
+      throw new GrammarError(`${path} uses unknown agreement <${name}>`)
+    }
+  })
+}
+
+// Replace rules and styles of a raw grammar with the overlay's; the result is
+// checked by parseGrammar like any grammar
+function applyOverlay(raw: Record<string, unknown>, overlay: unknown): Record<string, unknown> {
+  if (
+    !isRecord(overlay) ||
+    Object.keys(overlay).some((key) => key !== 'rules' && key !== 'styles') ||
+    (overlay.rules !== undefined && !isRecord(overlay.rules)) ||
+    (overlay.styles !== undefined && !isRecord(overlay.styles))
+  ) {
+    throw new GrammarError('overlay may only hold rules and styles objects')
+  }
+  const { styles, rules } = raw
+  if (!isRecord(styles) || !isRecord(rules)) {
+    throw new GrammarError('styles and rules must be objects')
+  }
+  for (const name of Object.keys(overlay.rules ?? {})) {
+    if (!(name in rules)) throw new GrammarError(`overlay replaces unknown rule ${name}`)
+  }
+  return {
+    ...raw,
+    styles: { ...styles, ...overlay.styles },
+    rules: { ...rules, ...overlay.rules },
+  }
+}
+
+// Parse and check raw grammar JSON, with an optional overlay applied first;
+// throws GrammarError on the first problem so a bad edit fails at startup
+// rather than producing broken compliments
+export function parseGrammar(input: unknown, overlay?: unknown): Grammar {
+  if (!isRecord(input)) throw new GrammarError('root must be an object')
+  const raw = overlay === undefined ? input : applyOverlay(input, overlay)
+  if (raw.version !== GRAMMAR_VERSION) {
+    throw new GrammarError(`version must be ${GRAMMAR_VERSION}`)
+  }
+  if (!isRecord(raw.styles)) throw new GrammarError('styles must be an object')
+  if (!isRecord(raw.agreement)) throw new GrammarError('agreement must be an object')
+  if (!Array.isArray(raw.compliment)) throw new GrammarError('compliment must be an array')
+  if (!isRecord(raw.rules)) throw new GrammarError('rules must be an object')
+
+  const styles: Record<string, WeightFormula> = {}
+  for (const [name, value] of Object.entries(raw.styles)) {
+    styles[name] = readWeight(value, `styles.${name}`)
+  }
+
+  const agreement: Record<string, AgreementRule> = {}
+  for (const [name, value] of Object.entries(raw.agreement)) {
+    if (
+      !isRecord(value) ||
+      typeof value.match !== 'string' ||
+      typeof value.then !== 'string' ||
+      typeof value.else !== 'string'
+    ) {
+      throw new GrammarError(`agreement.${name} needs string match, then and else`)
+    }
+    agreement[name] = { match: new RegExp(value.match), then: value.then, else: value.else }
+  }
+
+  const ruleNames = Object.keys(raw.rules)
+  const agreementNames = Object.keys(agreement)
+
+  const rules: Record<string, GrammarRule> = {}
+  for (const [name, value] of Object.entries(raw.rules)) {
+    const path = `rules.${name}`
+    if (!isRecord(value) || !Array.isArray(value.entries) || value.entries.length === 0) {
+      throw new GrammarError(`${path} needs a non-empty entries array`)
+    }
+    const weight = value.weight === undefined ? DEFAULT_WEIGHT : readWeight(value.weight, `${path}.weight`)
+
+    const entries = value.entries.map((item: unknown, i: number): GrammarEntry => {
+      const entryPath = `${path}.entries[${i}]`
+      const entry = typeof item === 'string' ? { text: item } : item
+      if (!isRecord(entry) || typeof entry.text !== 'string') {
+        throw new GrammarError(`${entryPath} must be a string or { text, style?, rarity? }`)
+      }
+      if (entry.style !== undefined && !(typeof entry.style === 'string' && entry.style in styles)) {
+        throw new GrammarError(`${entryPath} has unknown style ${String(entry.style)}`)
+      }
+      if (entry.rarity !== undefined && !isRarity(entry.rarity)) {
+        throw new GrammarError(`${entryPath} rarity must be 1, 2 or 3`)
+      }
+      checkTemplate(entry.text, entryPath, ruleNames, agreementNames)
+      const parsed: GrammarEntry = { text: entry.text }
+      if (entry.style !== undefined) parsed.style = entry.style as string
+      if (entry.rarity !== undefined && entry.rarity !== 1) parsed.rarity = entry.rarity as Rarity
+      return parsed
+    })
+    // Every tier falls back to common entries, so a rule must have some
+    if (entries.every((entry) => entry.rarity !== undefined)) {
+      throw new GrammarError(`${path} needs at least one common entry`)
+    }
+
+    rules[name] = { weight, entries }
+  }
+
+  const compliment = raw.compliment.map((item: unknown, i: number): GrammarFragment => {
+    const path = `compliment[${i}]`
+    if (!isRecord(item) || typeof item.slot !== 'string' || typeof item.template !== 'string') {
+      throw new GrammarError(`${path} needs string slot and template`)
+    }
+    checkTemplate(item.template, path, ruleNames, agreementNames)
+    return { slot: item.slot, template: item.template }
+  })
+
+  return { styles, agreement, compliment, rules }
+}
+
+function axisValue(style: StyleVector, axis: StyleAxis): number {
+  return axis === 'balance' ? 1 - Math.abs(style.tempo - style.softness) : style[axis]
+}
+
+function evaluateWeight(formula: WeightFormula, style: StyleVector): number {
+  if (formula.axis === undefined) return formula.base
+  return formula.base + axisValue(style, formula.axis) * (formula.scale ?? 0)
+}
+
+// Weighted selection: index picked by a draw in [0, 1)
+function weightedIndex(weights: number[], draw: number): number {
+  const totalWeight = weights.reduce((sum, w) => sum + w, 0)
+  let random = draw * totalWeight
+
+  for (let i = 0; i < weights.length; i++) {
+    random -= weights[i]
+    if (random <= 0) {
+      return i
+    }
+  }
+  return weights.length - 1
+}
+
+// One entry of a rule with its chance of being picked
+export interface WeightedEntry {
+  entry: GrammarEntry
+  weight: number
+  probability: number
+}
+
+// The entries a rule picks from at the given tier, weighted by each entry's
+// style (or the rule weight). Also used by scripts/analyzeCorpus.ts
+export function ruleDistribution(
+  grammar: Grammar,
+  name: string,
+  style: StyleVector,
+  tier: Rarity
+): WeightedEntry[] {
+  const rule = grammar.rules[name]
+  const tiered = rule.entries.filter((entry) => (entry.rarity ?? 1) === tier)
+  const pool = tiered.length > 0 ? tiered : rule.entries.filter((entry) => entry.rarity === undefined)
+  const weights = pool.map((entry) =>
+    evaluateWeight(entry.style === undefined ? rule.weight : grammar.styles[entry.style], style)
+  )
+  const totalWeight = weights.reduce((sum, w) => sum + w, 0)
+  return pool.map((entry, i) => ({
+    entry,
+    weight: weights[i],
+    probability: weights[i] / totalWeight,
+  }))
+}
+
+// Pick one entry of a rule at the given tier
+function selectEntry(
+  grammar: Grammar,
+  name: string,
+  style: StyleVector,
+  tier: Rarity,
+  rng: Prng,
+  depth: number,
+  trace: GrammarDraw[] | undefined
+): GrammarEntry {
+  const distribution = ruleDistribution(grammar, name, style, tier)
+  const draw = rng.nextDouble()
+  const picked = weightedIndex(
+    distribution.map(({ weight }) => weight),
+    draw
+  )
+
+  if (trace) {
+    trace.push({
+      rule: name,
+      depth,
+      draw,
+      candidates: distribution.map(({ entry, weight, probability }) => ({
+        text: entry.text,
+        weight,
+        probability,
+      })),
+      picked,
+    })
+  }
+  return distribution[picked].entry
+}
+
+function expandReferences(
+  grammar: Grammar,
+  template: string,
+  style: StyleVector,
+  tier: Rarity,
+  rng: Prng,
+  depth: number,
+  trace: GrammarDraw[] | undefined
+): Expansion {
+  if (depth > MAX_DEPTH) {
+    throw new GrammarError(`expansion deeper than ${MAX_DEPTH} levels (recursive rule?)`)
+  }
+  let rarity: Rarity = 1
+  const text = template.replace(REFERENCE_PATTERN, (_, name: string) => {
+    const entry = selectEntry(grammar, name, style, tier, rng, depth, trace)
+    const nested = expandReferences(grammar, entry.text, style, tier, rng, depth + 1, trace)
+    rarity = Math.max(rarity, entry.rarity ?? 1, nested.rarity) as Rarity
+    return nested.text
+  })
+  return { text, rarity }
+}
+
+// Resolve agreement tokens against the word after them (after expansion, so
+// a token can agree with text that came from a nested rule)
+function applyAgreement(grammar: Grammar, text: string): string {
+  return text.replace(/<(\w+)>(\s*)(\S*)/g, (_, name: string, space: string, word: string) => {
+    const rule = grammar.agreement[name]
+    return `${rule.match.test(word) ? rule.then : rule.else}${space}${word}`
+  })
+}
+
+// Expand a single rule, skipping the entries `exclude` rejects (the whole pool
+// when that would leave nothing). Returns the picked entry too, so callers can
+// avoid it or its style next time (letters never repeat a category)
+export function expandRule(
+  grammar: Grammar,
+  name: string,
+  style: StyleVector,
+  rng: Prng,
+  tier: Rarity = 1,
+  exclude: (entry: GrammarEntry) => boolean = () => false
+): Expansion & { entry: GrammarEntry } {
+  const distribution = ruleDistribution(grammar, name, style, tier)
+  const allowed = distribution.filter(({ entry }) => !exclude(entry))
+  const pool = allowed.length > 0 ? allowed : distribution
+  const { entry } = pool[weightedIndex(pool.map(({ weight }) => weight), rng.nextDouble())]
+  const nested = expandReferences(grammar, entry.text, style, tier, rng, 1, undefined)
+  return {
+    text: applyAgreement(grammar, nested.text),
+    rarity: Math.max(entry.rarity ?? 1, nested.rarity) as Rarity,
+    entry,
+  }
+}
+
+// Expand a template into final text; draws are appended to `trace` when given
+export function expandTemplate(
+  grammar: Grammar,
+  template: string,
+  style: StyleVector,
+  rng: Prng,
+  tier: Rarity = 1,
+  trace?: GrammarDraw[]
+): Expansion {
+  const expansion = expandReferences(grammar, template, style, tier, rng, 0, trace)
+  return { text: applyAgreement(grammar, expansion.text), rarity: expansion.rarity }
+}
@@ -0,0 +1,54 @@
+// Isomorphic SHA-256 and HMAC-SHA-256
+// Hashing runs in the browser, the Edge runtime and Node, so it goes through
+// Web Crypto (crypto.subtle) wherever that exists and only falls back to
+// Node's crypto module in Node before 19, which has no global. Browsers hide
+// subtle on pages served over plain http (other than localhost); there is no
+// fallback there, so hashing throws an error saying so.
+// Async because subtle.digest is; the hex output is the same either way
+
+const encoder = new TextEncoder()
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('')
+}
+
+// Node's crypto, loaded only on the fallback path. webpackIgnore keeps
+// node:crypto out of the client and Edge bundles, which never take it
+async function nodeSha256Hex(text: string): Promise<string> {
+  const { createHash } = await import(/* webpackIgnore: true */ 'node:crypto')
+  return createHash('sha256').update(text).digest('hex')
+}
+
+async function nodeHmacSha256Hex(key: string, text: string): Promise<string> {
+  const { createHmac } = await import(/* webpackIgnore: true */ 'node:crypto')
+  return createHmac('sha256', key).update(text).digest('hex')
+}
+
+// Web Crypto, or null where Node's crypto stands in
+function webCrypto(): SubtleCrypto | null {
+  const subtle = globalThis.crypto?.subtle
+  if (!subtle && typeof window !== 'undefined') {
+    throw new Error('crypto.subtle is unavailable: serve the page over https or from localhost')
+  }
+  return subtle ?? null
+}
+
+export async function sha256Hex(text: string): Promise<string> {
+  const subtle = webCrypto()
+  if (!subtle) return nodeSha256Hex(text)
+  return toHex(new Uint8Array(await subtle.digest('SHA-256', encoder.encode(text))))
+}
+
+// HMAC-SHA-256 of `text` under the UTF-8 bytes of `key`
+export async function hmacSha256Hex(key: string, text: string): Promise<string> {
+  const subtle = webCrypto()
+  if (!subtle) return nodeHmacSha256Hex(key, text)
+  const cryptoKey = await subtle.importKey(
+    'raw',
+    encoder.encode(key),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  )
+  return toHex(new Uint8Array(await subtle.sign('HMAC', cryptoKey, encoder.encode(text))))
+}
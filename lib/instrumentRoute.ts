@@ -0,0 +1,47 @@
+// Route instrumentation: request IDs, structured logs and HTTP metrics
+// Wraps an App Router handler; the wrapped handler receives a request-scoped
+// logger and every response carries an x-request-id header
+
+import { type Logger, logger } from './logger'
+import { metrics } from './metrics'
+
+export interface RouteTelemetry {
+  requestId: string
+  log: Logger
+}
+
+// Accept a caller-provided request ID only if it is short and plain
+const REQUEST_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/
+
+function resolveRequestId(request: Request): string {
+  const incoming = request.headers.get('x-request-id')
+  return incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : crypto.randomUUID()
+}
+
+export function instrumentRoute<Req extends Request, Ctx>(
+  route: string,
+  handler: (request: Req, context: Ctx, telemetry: RouteTelemetry) => Promise<Response>
+): (request: Req, context: Ctx) => Promise<Response> {
+  return async (request, context) => {
+    const requestId = resolveRequestId(request)
+    const log = logger.child({ requestId, route })
+    const start = performance.now()
+
+    let status = 500
+    try {
+      const response = await handler(request, context, { requestId, log })
+      status = response.status
+      response.headers.set('x-request-id', requestId)
+      return response
+    } catch (error) {
+      log.error('Unhandled route error', { error })
+      throw error
+    } finally {
+      // For streaming responses this measures time to first byte
+      const seconds = (performance.now() - start) / 1000
+      metrics.requests.inc({ route, status: String(status) })
+      metrics.requestDuration.observe({ route }, seconds)
+      log.info('Request handled', { method: request.method, status, durationMs: Math.round(seconds * 1000) })
+    }
+  }
+}
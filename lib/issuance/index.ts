@@ -0,0 +1,70 @@
+// Server-side issuance store
+// Records every issued compliment per user so uniqueness no longer depends
+// on the client sending avoidHashes. Backend is chosen by ISSUANCE_STORE:
+//   memory (default) - per-process, lost on restart
+//   sqlite           - single file at ISSUANCE_SQLITE_PATH
+//   prisma           - Postgres via the models in prisma/schema.prisma
+
+export interface IssuanceRecord {
+  userKey: string
+  complimentHash: string // SHA-256 of the text (Compliment.id)
+  text: string
+  fingerprintHash: string // entropy key that produced the text
+}
+
+export interface IssuanceStore {
+  // Hashes already issued to this user
+  getIssuedHashes(userKey: string): Promise<Set<string>>
+  // Record an issuance; resolves false if this user already has this compliment
+  recordIssued(record: IssuanceRecord): Promise<boolean>
+}
+
+export type IssuanceBackend = 'memory' | 'sqlite' | 'prisma'
+
+async function createIssuanceStore(backend: IssuanceBackend): Promise<IssuanceStore> {
+  switch (backend) {
+    case 'memory': {
+      const { MemoryIssuanceStore } = await import('./memoryStore')
+      return new MemoryIssuanceStore()
+    }
+    case 'sqlite': {
+      // better-sqlite3 is native; Next compiles this branch out of Edge bundles
+      if (process.env.NEXT_RUNTIME !== 'edge') {
+        const { SqliteIssuanceStore } = await import('./sqliteStore')
+        return new SqliteIssuanceStore(
+          process.env.ISSUANCE_SQLITE_PATH || '.data/issuance.db'
+        )
+      }
+      throw new Error('ISSUANCE_STORE=sqlite needs the Node.js runtime')
+    }
+    case 'prisma': {
+      // The default Prisma client needs Node; Next compiles this branch out of Edge bundles
+      if (process.env.NEXT_RUNTIME !== 'edge') {
+        const { PrismaIssuanceStore } = await import('./prismaStore')
+        return new PrismaIssuanceStore()
+      }
+      throw new Error('ISSUANCE_STORE=prisma needs the Node.js runtime')
+    }
+  }
+}
+
+// Keep one store per process (survives Next.js dev hot reloads)
+const globalForIssuance = globalThis as unknown as {
+  issuanceStore?: Promise<IssuanceStore>
+}
+
+export function getIssuanceStore(): Promise<IssuanceStore> {
+  if (!globalForIssuance.issuanceStore) {
+    const backend = (process.env.ISSUANCE_STORE || 'memory') as IssuanceBackend
+    if (!['memory', 'sqlite', 'prisma'].includes(backend)) {
+      throw new Error(`Unknown ISSUANCE_STORE backend: ${backend}`)
+    }
+    // Forget a failed init so the next call retries instead of failing forever
+    const store = createIssuanceStore(backend).catch((error: unknown) => {
+      globalForIssuance.issuanceStore = undefined
+      throw error
+    })
+    globalForIssuance.issuanceStore = store
+  }
+  return globalForIssuance.issuanceStore
+}
@@ -0,0 +1,25 @@
+// In-memory issuance store
+// Per-process only: fine for development and single-instance deployments
+
+import type { IssuanceRecord, IssuanceStore } from './index'
+
+export class MemoryIssuanceStore implements IssuanceStore {
+  private issued = new Map<string, Map<string, IssuanceRecord>>()
+
+  async getIssuedHashes(userKey: string): Promise<Set<string>> {
+    return new Set(this.issued.get(userKey)?.keys())
+  }
+
+  async recordIssued(record: IssuanceRecord): Promise<boolean> {
+    let forUser = this.issued.get(record.userKey)
+    if (!forUser) {
+      forUser = new Map()
+      this.issued.set(record.userKey, forUser)
+    }
+    if (forUser.has(record.complimentHash)) {
+      return false
+    }
+    forUser.set(record.complimentHash, record)
+    return true
+  }
+}
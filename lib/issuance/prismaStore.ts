@@ -0,0 +1,44 @@
+// Postgres issuance store via Prisma
+// Uses the Compliment and Issued models; the (userKey, complimentId)
+// unique constraint is what enforces per-user uniqueness
+
+import { PrismaClient } from '@prisma/client'
+import type { IssuanceRecord, IssuanceStore } from './index'
+
+export class PrismaIssuanceStore implements IssuanceStore {
+  private prisma = new PrismaClient()
+
+  async getIssuedHashes(userKey: string): Promise<Set<string>> {
+    const rows: { complimentId: string }[] = await this.prisma.issued.findMany({
+      where: { userKey },
+      select: { complimentId: true },
+    })
+    return new Set(rows.map((row) => row.complimentId))
+  }
+
+  async recordIssued(record: IssuanceRecord): Promise<boolean> {
+    // Generated compliments are keyed by their text hash
+    await this.prisma.compliment.upsert({
+      where: { id: record.complimentHash },
+      create: { id: record.complimentHash, text: record.text },
+      update: {},
+    })
+
+    try {
+      await this.prisma.issued.create({
+        data: {
+          userKey: record.userKey,
+          complimentId: record.complimentHash,
+          fingerprintHash: record.fingerprintHash,
+        },
+      })
+      return true
+    } catch (error) {
+      // P2002: unique constraint (userKey, complimentId) violated
+      if ((error as { code?: string }).code === 'P2002') {
+        return false
+      }
+      throw error
+    }
+  }
+}
@@ -0,0 +1,54 @@
+// SQLite-file issuance store
+// Mirrors the compliments/issued tables from prisma/schema.prisma so data can
+// be migrated to Postgres later without reshaping
+
+import fs from 'fs'
+import path from 'path'
+import Database from 'better-sqlite3'
+import type { IssuanceRecord, IssuanceStore } from './index'
+
+export class SqliteIssuanceStore implements IssuanceStore {
+  private db: Database.Database
+
+  constructor(filename: string) {
+    fs.mkdirSync(path.dirname(filename), { recursive: true })
+    this.db = new Database(filename)
+    this.db.pragma('journal_mode = WAL')
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS compliments (
+        id TEXT PRIMARY KEY,
+        text TEXT NOT NULL,
+        created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+      );
+      CREATE TABLE IF NOT EXISTS issued (
+        user_key TEXT NOT NULL,
+        compliment_id TEXT NOT NULL REFERENCES compliments(id) ON DELETE CASCADE,
+        issued_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        fingerprint_hash TEXT,
+        UNIQUE (user_key, compliment_id)
+      );
+      CREATE INDEX IF NOT EXISTS issued_user_key_idx ON issued (user_key);
+    `)
+  }
+
+  async getIssuedHashes(userKey: string): Promise<Set<string>> {
+    const rows = this.db
+      .prepare('SELECT compliment_id FROM issued WHERE user_key = ?')
+      .all(userKey) as { compliment_id: string }[]
+    return new Set(rows.map((row) => row.compliment_id))
+  }
+
+  async recordIssued(record: IssuanceRecord): Promise<boolean> {
+    const insert = this.db.transaction((r: IssuanceRecord) => {
+      this.db
+        .prepare('INSERT OR IGNORE INTO compliments (id, text) VALUES (?, ?)')
+        .run(r.complimentHash, r.text)
+      return this.db
+        .prepare(
+          'INSERT OR IGNORE INTO issued (user_key, compliment_id, fingerprint_hash) VALUES (?, ?, ?)'
+        )
+        .run(r.userKey, r.complimentHash, r.fingerprintHash)
+    })
+    return insert(record).changes > 0
+  }
+}
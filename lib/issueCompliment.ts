@@ -0,0 +1,337 @@
+// Compliment issuance: nonce handling, uniqueness retry loop and personal key
+// Shared by the single, streaming and batch compliment routes
+
+import { type UserSignals, type EnvData, selectComplimentFromCandidates } from './entropy'
+import {
+  type ComplimentFragment,
+  type ComposedCompliment,
+  composeCompliment,
+  composeLetter,
+} from './complimentGenerator'
+import {
+  type ReflectionInput,
+  type ReflectionStrategy,
+  getReflectionStrategy,
+  getReflector,
+} from './reflection'
+import { type LintResult, getLintRules, lintCompliment } from './complimentLint'
+import { encodeComplimentKey } from './complimentKey'
+import { type Sources, systemSources, sourcesForSeed } from './determinism'
+import type { IssuanceStore } from './issuance'
+import { type CuratedCompliment, getCorpusShare } from './corpus'
+import { type Rarity, getDropRates, rollRarity } from './rarity'
+import type { Locale } from './locales'
+import { type Tone, DEFAULT_TONE } from './tones'
+import { type Format, DEFAULT_FORMAT } from './formats'
+import { metrics } from './metrics'
+import { sha256Hex } from './hash'
+import { identityEntropyKey, resolveIdentity, storageUserKeys } from './fingerprint'
+import type { AvoidSet, ReadonlyAvoidSet } from './avoidSet'
+
+export interface IssueInput {
+  signals: UserSignals // already validated and clamped
+  userKey: string
+  env: EnvData
+  seed?: string // client-supplied; makes issuance reproducible
+  locale: Locale // already negotiated
+  tone: Tone
+  format: Format
+  curated?: CuratedCompliment[] // corpus entries in the locale, drawn next to the grammar
+}
+
+export interface IssuedCompliment {
+  id: string
+  key: string // personal key; curated picks name their corpus hash
+  text: string
+  fragments: ComplimentFragment[] // composition steps, concatenating to text; none for curated picks
+  reflection: string
+  rarity: Rarity
+  fingerprintHash: string // entropy key that produced the text
+  attempts: number // generations needed to dodge avoided hashes and lint rejections
+  rejectedBy?: string // lint rule that still rejected the final candidate
+}
+
+// Regeneration attempts before the jittered fallback kicks in
+const MAX_ATTEMPTS = 10
+
+// Fresh-nonce rounds before giving up on a server-unique compliment
+const MAX_ROUNDS = 3
+
+// Curated compliments of the rolled tier, then common ones, then anything
+// (the grammar's fallback order), picked with the entropy key and skipping
+// `avoid` where possible. Callers check the returned hash against `avoid`
+async function selectCurated(
+  entropyKey: string,
+  candidates: CuratedCompliment[],
+  avoid: ReadonlyAvoidSet,
+  tierDraw: number
+): Promise<{ text: string; hash: string; fingerprintHash: string; rarity: Rarity }> {
+  const tier = rollRarity(getDropRates(), tierDraw)
+  const tiered = candidates.filter((candidate) => candidate.rarity === tier)
+  const common = candidates.filter((candidate) => candidate.rarity === 1)
+  const pool = tiered.length > 0 ? tiered : common.length > 0 ? common : candidates
+
+  const selected = await selectComplimentFromCandidates(
+    entropyKey,
+    pool.map((candidate) => candidate.text),
+    avoid
+  )
+  // complimentText comes back normalized, so compare normalized candidates
+  const rarity =
+    pool.find((candidate) => candidate.text.trim().replace(/\s+/g, ' ') === selected.complimentText)
+      ?.rarity ?? 1
+  return {
+    text: selected.complimentText,
+    hash: selected.complimentHash,
+    fingerprintHash: selected.fingerprintHash,
+    rarity,
+  }
+}
+
+// Generate a compliment whose hash is not in `avoid` and that passes the
+// output linter (see lib/complimentLint.ts)
+// Both are best-effort: after MAX_ATTEMPTS the fallback result is returned
+// even if it still collides or is rejected, so callers must check.
+// For CORPUS_SHARE of plain compliments the text is a curated entry instead
+// (the corpus has no tones or letters); once every entry is avoided the
+// grammar takes over
+export async function issueCompliment(
+  input: IssueInput,
+  avoid: ReadonlyAvoidSet,
+  sources: Sources = systemSources
+): Promise<IssuedCompliment> {
+  const { signals, userKey, env, locale, tone, format } = input
+  const { pixelsMoved, clicks, idleMs } = signals
+  const { clock, random } = sources
+
+  // Generate a session nonce for "Try again" uniqueness
+  const sessionNonce = `${clock.now()}-${random.next().toString(36).substring(2, 9)}`
+
+  // 1. Compute stable entropy key (keyed and salted in privacy mode, see lib/fingerprint.ts)
+  const identity = await resolveIdentity(userKey, env, clock.now())
+  const entropyKey = await identityEntropyKey(identity, signals, sessionNonce)
+
+  // Behavior reflection of the session (the key records the strategy)
+  const reflector = getReflectionStrategy()
+  const reflection = getReflector(reflector).reflect({ key: entropyKey, signals, locale })
+
+  // 2. Serve a curated compliment instead, when the share draw says so
+  const curated = input.curated ?? []
+  if (
+    curated.length > 0 &&
+    format === DEFAULT_FORMAT &&
+    tone === DEFAULT_TONE &&
+    random.next() < getCorpusShare()
+  ) {
+    const selected = await selectCurated(entropyKey, curated, avoid, random.next())
+    if (!avoid.has(selected.hash)) {
+      metrics.curatedSelections.inc()
+      return {
+        id: selected.hash,
+        key: await encodeComplimentKey({
+          signals,
+          identity,
+          sessionNonce,
+          locale,
+          reflector,
+          text: { source: 'corpus', hash: selected.hash },
+        }),
+        text: selected.text,
+        fragments: [],
+        reflection,
+        rarity: selected.rarity,
+        fingerprintHash: selected.fingerprintHash,
+        attempts: 0,
+      }
+    }
+  }
+
+  // 3. Generate compliment from templates (deterministic from key)
+  const compose = format === 'letter' ? composeLetter : composeCompliment
+  const rules = getLintRules(format)
+  let composed: ComposedCompliment
+  let lint: LintResult
+  let complimentHash: string
+  let fingerprintHash: string
+  let nonceSuffix = ''
+  let textPixelsMoved = pixelsMoved
+  let attempts = 0
+  let uniquenessRetries = 0
+
+  // Ensure uniqueness: if generated compliment is rejected by the linter or
+  // avoided, regenerate with different nonce
+  do {
+    nonceSuffix = attempts > 0 ? `-retry-${attempts}` : ''
+    const currentNonce = `${sessionNonce}${nonceSuffix}`
+
+    fingerprintHash = await identityEntropyKey(identity, signals, currentNonce)
+    composed = compose(fingerprintHash, pixelsMoved, clicks, idleMs, locale, tone)
+    lint = lintCompliment(composed.fragments, rules)
+    complimentHash = await sha256Hex(lint.text)
+    if (lint.rejectedBy) {
+      metrics.lintRejections.inc({ rule: lint.rejectedBy })
+    } else if (avoid.has(complimentHash)) {
+      uniquenessRetries++
+    }
+    attempts++
+  } while ((lint.rejectedBy || avoid.has(complimentHash)) && attempts < MAX_ATTEMPTS)
+
+  // If still rejected or collided after max attempts, use a different approach
+  const exhausted =
+    (lint.rejectedBy !== undefined || avoid.has(complimentHash)) && attempts >= MAX_ATTEMPTS
+  if (exhausted) {
+    // Add extra entropy to force different generation
+    nonceSuffix = `-fallback-${clock.now()}`
+    textPixelsMoved = pixelsMoved + random.next() * 0.1 // Tiny variation
+    fingerprintHash = await identityEntropyKey(identity, signals, `${sessionNonce}${nonceSuffix}`)
+    composed = compose(fingerprintHash, textPixelsMoved, clicks, idleMs, locale, tone)
+    lint = lintCompliment(composed.fragments, rules)
+    complimentHash = await sha256Hex(lint.text)
+    if (lint.rejectedBy) {
+      metrics.lintRejections.inc({ rule: lint.rejectedBy })
+    }
+  }
+
+  metrics.generations.inc({}, exhausted ? attempts + 1 : attempts)
+  metrics.uniquenessRetries.inc({}, uniquenessRetries)
+  if (exhausted) {
+    metrics.maxAttemptsExhausted.inc()
+  }
+
+  return {
+    id: complimentHash,
+    key: await encodeComplimentKey({
+      signals,
+      identity,
+      sessionNonce,
+      locale,
+      reflector,
+      text: { source: 'grammar', nonceSuffix, textPixelsMoved, tone, format, tier: composed.tier },
+    }),
+    text: lint.text,
+    fragments: lint.fragments,
+    reflection,
+    rarity: composed.rarity,
+    fingerprintHash,
+    attempts,
+    rejectedBy: lint.rejectedBy,
+  }
+}
+
+// Issue a compliment that is neither in `avoid` nor already recorded for the
+// user in the store, and record it. Resolves null when no such compliment
+// could be found; `avoid` is extended with every rejected hash, and the hash
+// issued is claimed in it before the first await.
+// Seeded requests are replays: they neither consult nor update the store,
+// otherwise a second identical request could never match the first
+export async function issueUniqueCompliment(
+  input: IssueInput,
+  avoid: AvoidSet,
+  store: IssuanceStore,
+  sources?: Sources
+): Promise<IssuedCompliment | null> {
+  sources ??= await sourcesForSeed(input.seed)
+  // Privacy mode records a keyed user id, never the raw user key. Records
+  // go under the current secret's id; every configured secret's are avoided
+  const userKeys = await storageUserKeys(input.userKey)
+  const recordUserKey = userKeys[0]
+  if (input.seed === undefined) {
+    const issued = await Promise.all(userKeys.map((userKey) => store.getIssuedHashes(userKey)))
+    issued.forEach((hashes) => hashes.forEach((hash) => avoid.add(hash)))
+  }
+
+  for (let round = 0; round < MAX_ROUNDS; round++) {
+    const compliment = await issueCompliment(input, avoid, sources)
+    if (avoid.has(compliment.id) || compliment.rejectedBy) {
+      continue // best-effort loop gave up; try again with a fresh session nonce
+    }
+    avoid.claim(compliment.id)
+
+    if (input.seed !== undefined) {
+      return compliment
+    }
+
+    const recorded = await store.recordIssued({
+      userKey: recordUserKey,
+      complimentHash: compliment.id,
+      text: compliment.text,
+      fingerprintHash: compliment.fingerprintHash,
+    })
+    if (recorded) {
+      return compliment
+    }
+    // Issued concurrently by another request; avoid it from now on
+    avoid.add(compliment.id)
+  }
+  return null
+}
+
+// Compliment picked from the curated fallback list
+export interface DegradedCompliment {
+  id: string
+  key: string // personal key naming the corpus hash
+  text: string
+  reflection: string
+  rarity: Rarity
+  fingerprintHash: string
+  degraded: true
+}
+
+// The rule-based reflector needs no grammar, so it is the last resort.
+// Resolves the strategy that wrote the reflection, for the key
+function degradedReflection(input: ReflectionInput): { text: string; strategy: ReflectionStrategy } {
+  try {
+    const strategy = getReflectionStrategy()
+    return { text: getReflector(strategy).reflect(input), strategy }
+  } catch {
+    return { text: getReflector('rules').reflect(input), strategy: 'rules' }
+  }
+}
+
+// Degraded mode for when generation or the issuance store fails: rolls a
+// rarity tier, then selects from the curated compliments of that tier (see
+// selectCurated) with the user's own fingerprint and avoid set.
+// The reflection comes from the configured reflector, falling back to the
+// rule-based one if that throws too
+export async function issueDegradedCompliment(
+  input: IssueInput,
+  avoid: ReadonlyAvoidSet,
+  candidates: CuratedCompliment[],
+  sources?: Sources
+): Promise<DegradedCompliment> {
+  const { clock, random } = sources ?? (await sourcesForSeed(input.seed))
+  const sessionNonce = `${clock.now()}-${random.next().toString(36).substring(2, 9)}-degraded`
+
+  const tierDraw = random.next()
+  const identity = await resolveIdentity(input.userKey, input.env, clock.now())
+  const selected = await selectCurated(
+    await identityEntropyKey(identity, input.signals, sessionNonce),
+    candidates,
+    avoid,
+    tierDraw
+  )
+
+  // The selection's entropy key is the session's, as the key rebuild expects
+  const reflection = degradedReflection({
+    key: selected.fingerprintHash,
+    signals: input.signals,
+    locale: input.locale,
+  })
+
+  return {
+    id: selected.hash,
+    key: await encodeComplimentKey({
+      signals: input.signals,
+      identity,
+      sessionNonce,
+      locale: input.locale,
+      reflector: reflection.strategy,
+      text: { source: 'corpus', hash: selected.hash },
+    }),
+    text: selected.text,
+    reflection: reflection.text,
+    rarity: selected.rarity,
+    fingerprintHash: selected.fingerprintHash,
+    degraded: true,
+  }
+}
@@ -0,0 +1,76 @@
+// Locale packs
+// Each locale directory holds grammar.json (compliment and reflection
+// templates), fallback.json (curated compliments) and messages.json (UI and
+// rule-based reflection strings). This module is client-safe: it only pulls
+// in the small messages files; grammars are loaded by the generator
+
+import en from './en/messages.json'
+import es from './es/messages.json'
+import fr from './fr/messages.json'
+
+export const SUPPORTED_LOCALES = ['en', 'es', 'fr'] as const
+export type Locale = (typeof SUPPORTED_LOCALES)[number]
+export const DEFAULT_LOCALE: Locale = 'en'
+
+export type Messages = typeof en
+
+// Typed against the English pack, so a missing key in another pack fails tsc
+const MESSAGES: Record<Locale, Messages> = { en, es, fr }
+
+export function isLocale(value: unknown): value is Locale {
+  return (SUPPORTED_LOCALES as readonly unknown[]).includes(value)
+}
+
+// Match one language tag: exact ("fr") first, then its primary subtag ("fr-CA" -> "fr")
+function matchTag(tag: string): Locale | null {
+  const normalized = tag.trim().toLowerCase()
+  if (isLocale(normalized)) return normalized
+  const primary = normalized.split('-')[0]
+  return isLocale(primary) ? primary : null
+}
+
+// Parse an Accept-Language header into tags, highest quality first
+// (ties keep header order; q=0 means "not acceptable")
+function parseAcceptLanguage(header: string): string[] {
+  return header
+    .split(',')
+    .map((part, index) => {
+      const [tag, ...params] = part.trim().split(';')
+      const q = params
+        .map((param) => param.trim())
+        .find((param) => param.startsWith('q='))
+      const quality = q === undefined ? 1 : Number(q.slice(2))
+      return { tag: tag.trim(), quality: Number.isFinite(quality) ? quality : 0, index }
+    })
+    .filter(({ tag, quality }) => tag !== '' && tag !== '*' && quality > 0)
+    .sort((a, b) => b.quality - a.quality || a.index - b.index)
+    .map(({ tag }) => tag)
+}
+
+// Pick the locale for a request: an explicit locale wins when we support it,
+// then Accept-Language in preference order, then the default
+export function negotiateLocale(
+  explicit: string | undefined,
+  acceptLanguage: string | null | undefined
+): Locale {
+  if (explicit !== undefined) {
+    const matched = matchTag(explicit)
+    if (matched) return matched
+  }
+  for (const tag of parseAcceptLanguage(acceptLanguage ?? '')) {
+    const matched = matchTag(tag)
+    if (matched) return matched
+  }
+  return DEFAULT_LOCALE
+}
+
+export function getMessages(locale: Locale): Messages {
+  return MESSAGES[locale]
+}
+
+// Fill {name} placeholders in a message
+export function formatMessage(message: string, values: Record<string, string | number>): string {
+  return message.replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in values ? String(values[name]) : match
+  )
+}
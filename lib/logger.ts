@@ -0,0 +1,59 @@
+// Small structured logger
+// One JSON object per line with a level, message, timestamp and any bound
+// fields (e.g. requestId). Level threshold comes from LOG_LEVEL (default info)
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error'
+
+export type LogFields = Record<string, unknown>
+
+export interface Logger {
+  debug(msg: string, fields?: LogFields): void
+  info(msg: string, fields?: LogFields): void
+  warn(msg: string, fields?: LogFields): void
+  error(msg: string, fields?: LogFields): void
+  // New logger with extra fields bound to every line
+  child(fields: LogFields): Logger
+}
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 }
+
+function thresholdLevel(): LogLevel {
+  const level = process.env.LOG_LEVEL as LogLevel | undefined
+  return level && level in LEVEL_ORDER ? level : 'info'
+}
+
+// Errors do not JSON-serialize on their own
+function serializeValue(value: unknown): unknown {
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message, stack: value.stack }
+  }
+  return value
+}
+
+export function createLogger(bound: LogFields = {}): Logger {
+  const write = (level: LogLevel, msg: string, fields: LogFields = {}) => {
+    if (LEVEL_ORDER[level] < LEVEL_ORDER[thresholdLevel()]) return
+
+    const entry: LogFields = { ts: new Date().toISOString(), level, msg }
+    for (const [key, value] of Object.entries({ ...bound, ...fields })) {
+      entry[key] = serializeValue(value)
+    }
+
+    const line = JSON.stringify(entry)
+    if (level === 'error' || level === 'warn') {
+      console.error(line)
+    } else {
+      console.log(line)
+    }
+  }
+
+  return {
+    debug: (msg, fields) => write('debug', msg, fields),
+    info: (msg, fields) => write('info', msg, fields),
+    warn: (msg, fields) => write('warn', msg, fields),
+    error: (msg, fields) => write('error', msg, fields),
+    child: (fields) => createLogger({ ...bound, ...fields }),
+  }
+}
+
+export const logger = createLogger()
@@ -0,0 +1,138 @@
+// In-process metrics in Prometheus text exposition format
+// Deliberately tiny: counters and histograms with string labels, one registry
+// per process. Scraped via GET /api/metrics
+
+type Labels = Record<string, string>
+
+function labelKey(labels: Labels): string {
+  return Object.keys(labels)
+    .sort()
+    .map((name) => `${name}="${labels[name].replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`)
+    .join(',')
+}
+
+function formatSample(name: string, key: string, value: number): string {
+  return key ? `${name}{${key}} ${value}` : `${name} ${value}`
+}
+
+interface Metric {
+  render(): string
+}
+
+export class Counter implements Metric {
+  private values = new Map<string, number>()
+
+  // Unlabeled counters expose 0 from the first scrape, so rate() and
+  // absent() work before anything happens; labeled ones cannot know their
+  // label values in advance
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly labelNames: string[] = []
+  ) {
+    if (labelNames.length === 0) {
+      this.values.set('', 0)
+    }
+  }
+
+  inc(labels: Labels = {}, amount: number = 1): void {
+    const key = labelKey(labels)
+    this.values.set(key, (this.values.get(key) ?? 0) + amount)
+  }
+
+  render(): string {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} counter`]
+    this.values.forEach((value, key) => lines.push(formatSample(this.name, key, value)))
+    return lines.join('\n')
+  }
+}
+
+export class Histogram implements Metric {
+  private series = new Map<string, { counts: number[]; sum: number; count: number }>()
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly buckets: number[]
+  ) {}
+
+  observe(labels: Labels, value: number): void {
+    const key = labelKey(labels)
+    let entry = this.series.get(key)
+    if (!entry) {
+      entry = { counts: this.buckets.map(() => 0), sum: 0, count: 0 }
+      this.series.set(key, entry)
+    }
+    this.buckets.forEach((bound, i) => {
+      if (value <= bound) entry!.counts[i]++
+    })
+    entry.sum += value
+    entry.count++
+  }
+
+  render(): string {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`]
+    this.series.forEach((entry, key) => {
+      const prefix = key ? `${key},` : ''
+      this.buckets.forEach((bound, i) => {
+        lines.push(`${this.name}_bucket{${prefix}le="${bound}"} ${entry.counts[i]}`)
+      })
+      lines.push(`${this.name}_bucket{${prefix}le="+Inf"} ${entry.count}`)
+      lines.push(formatSample(`${this.name}_sum`, key, entry.sum))
+      lines.push(formatSample(`${this.name}_count`, key, entry.count))
+    })
+    return lines.join('\n')
+  }
+}
+
+function createMetrics() {
+  return {
+    requests: new Counter(
+      'compliment_http_requests_total',
+      'HTTP requests handled, by route and status code',
+      ['route', 'status']
+    ),
+    requestDuration: new Histogram(
+      'compliment_http_request_duration_seconds',
+      'HTTP request latency, by route',
+      [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5]
+    ),
+    generations: new Counter(
+      'compliment_generations_total',
+      'Compliment generations, including uniqueness retries'
+    ),
+    uniquenessRetries: new Counter(
+      'compliment_uniqueness_retries_total',
+      'Regenerations caused by a hash already in the avoid set'
+    ),
+    lintRejections: new Counter(
+      'compliment_lint_rejections_total',
+      'Generated candidates rejected by the output linter, by rule',
+      ['rule']
+    ),
+    maxAttemptsExhausted: new Counter(
+      'compliment_max_attempts_exhausted_total',
+      'Times the retry loop hit maxAttempts and used the jittered fallback'
+    ),
+    curatedSelections: new Counter(
+      'compliment_curated_selections_total',
+      'Compliments served from the curated corpus next to the grammar'
+    ),
+    fallbackResponses: new Counter(
+      'compliment_fallback_responses_total',
+      'Responses served from the error fallback path'
+    ),
+  }
+}
+
+// Keep one registry per process (survives Next.js dev hot reloads)
+const globalForMetrics = globalThis as unknown as {
+  complimentMetrics?: ReturnType<typeof createMetrics>
+}
+
+export const metrics = (globalForMetrics.complimentMetrics ??= createMetrics())
+
+// Full exposition text for every registered metric
+export function renderMetrics(): string {
+  return (Object.values(metrics) as Metric[]).map((m) => m.render()).join('\n\n') + '\n'
+}
@@ -0,0 +1,66 @@
+// Seedable pseudo-random generators
+// Every algorithm yields uniform doubles in [0, 1) with 53 random bits and
+// uniform ints in [0, max), so weighted picks and index draws are unbiased
+// whichever one a caller plugs in:
+//   splitmix64 (default) - 64-bit state, one 64-bit output per draw
+//   xoshiro256starstar   - xoshiro256**, 256-bit state seeded through SplitMix64
+//   pcg32                - 64-bit LCG with a permuted 32-bit output
+// scripts/prngSelfTest.ts checks each against the reference outputs and for
+// uniformity (npm run check:prng)
+
+import { SplitMix64 } from './splitmix64'
+import { Xoshiro256StarStar } from './xoshiro256'
+import { Pcg32 } from './pcg32'
+
+export { SplitMix64, Xoshiro256StarStar, Pcg32 }
+
+export const PRNG_ALGORITHMS = ['splitmix64', 'xoshiro256starstar', 'pcg32'] as const
+export type PrngAlgorithm = (typeof PRNG_ALGORITHMS)[number]
+
+// Generated text and personal keys depend on this stream; changing the
+// default changes what every existing key rebuilds to
+export const DEFAULT_PRNG_ALGORITHM: PrngAlgorithm = 'splitmix64'
+
+export interface Prng {
+  readonly algorithm: PrngAlgorithm
+  nextUint32(): number // 32 uniform bits as an unsigned integer
+  nextDouble(): number // uniform in [0, 1) with 53 random bits
+  nextInt(max: number): number // uniform integer in [0, max)
+}
+
+export const MASK64 = 0xffffffffffffffffn
+
+const TWO_POW_53 = 2 ** 53
+
+// [0, 1) from the top 53 bits of a 64-bit output
+export function doubleFromUint64(bits: bigint): number {
+  return Number(bits >> 11n) / TWO_POW_53
+}
+
+// [0, 1) from two 32-bit outputs (top 27 bits of the first, top 26 of the second)
+export function doubleFromUint32s(hi: number, lo: number): number {
+  return ((hi >>> 5) * 2 ** 26 + (lo >>> 6)) / TWO_POW_53
+}
+
+// Scale a double to an integer in [0, max). The bias is below max / 2^53,
+// far under what any statistical test can see for max up to 2^32
+export function scaleInt(double: number, max: number): number {
+  if (!Number.isInteger(max) || max < 1 || max > 2 ** 32) {
+    throw new RangeError(`nextInt max must be an integer from 1 to 2^32, got ${max}`)
+  }
+  return Math.floor(double * max)
+}
+
+export function isPrngAlgorithm(value: unknown): value is PrngAlgorithm {
+  return (PRNG_ALGORITHMS as readonly unknown[]).includes(value)
+}
+
+const FACTORIES: Record<PrngAlgorithm, (seed: bigint) => Prng> = {
+  splitmix64: (seed) => new SplitMix64(seed),
+  xoshiro256starstar: (seed) => new Xoshiro256StarStar(seed),
+  pcg32: (seed) => new Pcg32(seed),
+}
+
+export function createPrng(seed: bigint, algorithm: PrngAlgorithm = DEFAULT_PRNG_ALGORITHM): Prng {
+  return FACTORIES[algorithm](seed)
+}
@@ -0,0 +1,43 @@
+// PCG32 (O'Neill): PCG-XSH-RR, a 64-bit LCG whose state is permuted into a
+// 32-bit output. Doubles take two outputs
+
+import { type Prng, MASK64, doubleFromUint32s, scaleInt } from './index'
+
+const MULTIPLIER = 6364136223846793005n
+
+// Stream selector of the reference implementation's PCG32_INITIALIZER
+const DEFAULT_SEQUENCE = 0xda3e39cb94b95bdbn
+
+export class Pcg32 implements Prng {
+  readonly algorithm = 'pcg32'
+  private state = 0n
+  private increment: bigint
+
+  // Same seeding as the reference pcg32_srandom_r(seed, sequence)
+  constructor(seed: bigint, sequence: bigint = DEFAULT_SEQUENCE) {
+    this.increment = ((sequence << 1n) | 1n) & MASK64
+    this.step()
+    this.state = (this.state + (seed & MASK64)) & MASK64
+    this.step()
+  }
+
+  private step(): void {
+    this.state = (this.state * MULTIPLIER + this.increment) & MASK64
+  }
+
+  nextUint32(): number {
+    const old = this.state
+    this.step()
+    const xorshifted = Number((((old >> 18n) ^ old) >> 27n) & 0xffffffffn)
+    const rot = Number(old >> 59n)
+    return ((xorshifted >>> rot) | (xorshifted << (-rot & 31))) >>> 0
+  }
+
+  nextDouble(): number {
+    return doubleFromUint32s(this.nextUint32(), this.nextUint32())
+  }
+
+  nextInt(max: number): number {
+    return scaleInt(this.nextDouble(), max)
+  }
+}
@@ -0,0 +1,33 @@
+// SplitMix64 (Steele, Lea and Flood): a Weyl sequence through a 64-bit mixer
+// Also seeds xoshiro256**, as its authors recommend
+
+import { type Prng, MASK64, doubleFromUint64, scaleInt } from './index'
+
+export class SplitMix64 implements Prng {
+  readonly algorithm = 'splitmix64'
+  private state: bigint
+
+  constructor(seed: bigint) {
+    this.state = seed & MASK64
+  }
+
+  nextUint64(): bigint {
+    this.state = (this.state + 0x9e3779b97f4a7c15n) & MASK64
+    let z = this.state
+    z = ((z ^ (z >> 30n)) * 0xbf58476d1ce4e5b9n) & MASK64
+    z = ((z ^ (z >> 27n)) * 0x94d049bb133111ebn) & MASK64
+    return z ^ (z >> 31n)
+  }
+
+  nextUint32(): number {
+    return Number(this.nextUint64() >> 32n)
+  }
+
+  nextDouble(): number {
+    return doubleFromUint64(this.nextUint64())
+  }
+
+  nextInt(max: number): number {
+    return scaleInt(this.nextDouble(), max)
+  }
+}
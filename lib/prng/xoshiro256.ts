@@ -0,0 +1,55 @@
+// xoshiro256** (Blackman and Vigna): 256-bit xor/shift/rotate state with a
+// multiply-rotate-multiply scrambler
+
+import { type Prng, MASK64, doubleFromUint64, scaleInt } from './index'
+import { SplitMix64 } from './splitmix64'
+
+type State = [bigint, bigint, bigint, bigint]
+
+function rotl(x: bigint, k: bigint): bigint {
+  return ((x << k) | (x >> (64n - k))) & MASK64
+}
+
+export class Xoshiro256StarStar implements Prng {
+  readonly algorithm = 'xoshiro256starstar'
+  private s: State
+
+  // The four state words come from SplitMix64 so that similar seeds give
+  // unrelated states (and the state is never all zero in practice)
+  constructor(seed: bigint) {
+    const seeder = new SplitMix64(seed)
+    this.s = [seeder.nextUint64(), seeder.nextUint64(), seeder.nextUint64(), seeder.nextUint64()]
+  }
+
+  // Start from an exact state (used to check the reference outputs)
+  static fromState(state: State): Xoshiro256StarStar {
+    const rng = new Xoshiro256StarStar(0n)
+    rng.s = [...state]
+    return rng
+  }
+
+  nextUint64(): bigint {
+    const s = this.s
+    const result = (rotl((s[1] * 5n) & MASK64, 7n) * 9n) & MASK64
+    const t = (s[1] << 17n) & MASK64
+    s[2] ^= s[0]
+    s[3] ^= s[1]
+    s[1] ^= s[2]
+    s[0] ^= s[3]
+    s[2] ^= t
+    s[3] = rotl(s[3], 45n)
+    return result
+  }
+
+  nextUint32(): number {
+    return Number(this.nextUint64() >> 32n)
+  }
+
+  nextDouble(): number {
+    return doubleFromUint64(this.nextUint64())
+  }
+
+  nextInt(max: number): number {
+    return scaleInt(this.nextDouble(), max)
+  }
+}
@@ -0,0 +1,51 @@
+// Rarity tiers for compliments
+// Each compliment first rolls a tier from the drop rates, then picks content
+// of that tier (grammar entries or corpus entries tagged with that rarity)
+
+export type Rarity = 1 | 2 | 3 // 1 = common, 2 = uncommon, 3 = rare
+
+export const RARITY_LABELS: Record<Rarity, string> = {
+  1: 'common',
+  2: 'uncommon',
+  3: 'rare',
+}
+
+// Relative chance of each tier; normalized when rolling, so they need not sum to 1
+export type DropRates = Record<Rarity, number>
+
+export const DEFAULT_DROP_RATES: DropRates = { 1: 0.85, 2: 0.12, 3: 0.03 }
+
+export function isRarity(value: unknown): value is Rarity {
+  return value === 1 || value === 2 || value === 3
+}
+
+// RARITY_DROP_RATES="common,uncommon,rare", e.g. "0.85,0.12,0.03".
+// Anything malformed falls back to the defaults
+export function getDropRates(): DropRates {
+  const parts = (process.env.RARITY_DROP_RATES ?? '').split(',').map(Number)
+  if (
+    parts.length !== 3 ||
+    parts.some((rate) => !Number.isFinite(rate) || rate < 0) ||
+    parts.every((rate) => rate === 0)
+  ) {
+    return DEFAULT_DROP_RATES
+  }
+  return { 1: parts[0], 2: parts[1], 3: parts[2] }
+}
+
+// Drop rates that always roll `tier`, for rebuilding a personal key that
+// recorded the tier it rolled
+export function pinnedDropRates(tier: Rarity): DropRates {
+  return { 1: 0, 2: 0, 3: 0, [tier]: 1 }
+}
+
+// Map a uniform draw in [0, 1) to a tier
+export function rollRarity(rates: DropRates, draw: number): Rarity {
+  const total = rates[1] + rates[2] + rates[3]
+  let remaining = draw * total
+  for (const tier of [3, 2] as const) {
+    remaining -= rates[tier]
+    if (remaining < 0) return tier
+  }
+  return 1
+}
@@ -0,0 +1,163 @@
+// Token-bucket rate limiting for the compliment routes
+// Buckets are keyed by client IP and by userKey, and batches draw their items
+// from a second per-IP bucket. Each bucket holds up to
+// `capacity` tokens and refills continuously at `refillPerSecond`.
+// Storage is pluggable: the in-memory store is the default; a shared store
+// (Redis, etc.) only needs to implement RateLimitStore.take atomically
+
+export interface BucketConfig {
+  capacity: number // burst size
+  refillPerSecond: number // sustained rate
+}
+
+export interface BucketState {
+  tokens: number
+  updatedAt: number // ms timestamp of the last refill
+}
+
+export interface RateLimitDecision {
+  allowed: boolean
+  remaining: number
+  retryAfterMs: number // 0 when allowed
+}
+
+export interface RateLimitStore {
+  // Take `cost` tokens from the bucket at `key`, refilling first. A negative
+  // cost gives tokens back, up to capacity
+  take(key: string, config: BucketConfig, now: number, cost?: number): Promise<RateLimitDecision>
+}
+
+// Pure token-bucket step shared by every store implementation
+export function applyTokenBucket(
+  state: BucketState | undefined,
+  config: BucketConfig,
+  now: number,
+  cost: number
+): { state: BucketState; decision: RateLimitDecision } {
+  const previous = state ?? { tokens: config.capacity, updatedAt: now }
+  const elapsedSeconds = Math.max(0, now - previous.updatedAt) / 1000
+  const tokens = Math.min(
+    config.capacity,
+    previous.tokens + elapsedSeconds * config.refillPerSecond
+  )
+
+  if (tokens >= cost) {
+    return {
+      state: { tokens: Math.min(config.capacity, tokens - cost), updatedAt: now },
+      decision: { allowed: true, remaining: Math.floor(tokens - cost), retryAfterMs: 0 },
+    }
+  }
+
+  // A cost above capacity can never be paid, however long the caller waits
+  const retryAfterMs =
+    config.refillPerSecond > 0 && cost <= config.capacity
+      ? Math.ceil(((cost - tokens) / config.refillPerSecond) * 1000)
+      : Number.POSITIVE_INFINITY
+  return {
+    state: { tokens, updatedAt: now },
+    decision: { allowed: false, remaining: Math.floor(tokens), retryAfterMs },
+  }
+}
+
+function readNumberEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name])
+  return Number.isFinite(value) && value >= 0 ? value : fallback
+}
+
+export interface RateLimitConfig {
+  enabled: boolean
+  ip: BucketConfig
+  user: BucketConfig
+  batch: BucketConfig // items of batch requests, per IP
+  trustedProxyHops: number // proxies in front of the app that append to X-Forwarded-For
+}
+
+// Defaults: 20-request burst, then one every 3s per IP; 10 / one every 6s per
+// user; 100 batch items (one full batch), then one every 3s per IP
+export function getRateLimitConfig(): RateLimitConfig {
+  return {
+    enabled: process.env.RATE_LIMIT_ENABLED !== 'false',
+    ip: {
+      capacity: readNumberEnv('RATE_LIMIT_IP_CAPACITY', 20),
+      refillPerSecond: readNumberEnv('RATE_LIMIT_IP_REFILL_PER_SEC', 1 / 3),
+    },
+    user: {
+      capacity: readNumberEnv('RATE_LIMIT_USER_CAPACITY', 10),
+      refillPerSecond: readNumberEnv('RATE_LIMIT_USER_REFILL_PER_SEC', 1 / 6),
+    },
+    batch: {
+      capacity: readNumberEnv('RATE_LIMIT_BATCH_CAPACITY', 100),
+      refillPerSecond: readNumberEnv('RATE_LIMIT_BATCH_REFILL_PER_SEC', 1 / 3),
+    },
+    trustedProxyHops: Math.floor(readNumberEnv('RATE_LIMIT_TRUSTED_PROXY_HOPS', 0)),
+  }
+}
+
+// Keep one store per process (survives Next.js dev hot reloads)
+const globalForRateLimit = globalThis as unknown as {
+  rateLimitStore?: RateLimitStore
+}
+
+export function setRateLimitStore(store: RateLimitStore): void {
+  globalForRateLimit.rateLimitStore = store
+}
+
+export async function getRateLimitStore(): Promise<RateLimitStore> {
+  if (!globalForRateLimit.rateLimitStore) {
+    const { MemoryRateLimitStore } = await import('./memoryStore')
+    globalForRateLimit.rateLimitStore = new MemoryRateLimitStore()
+  }
+  return globalForRateLimit.rateLimitStore
+}
+
+// Client IP for the per-IP bucket. The platform's request.ip wins. Without
+// it, X-Forwarded-For is read only when RATE_LIMIT_TRUSTED_PROXY_HOPS says
+// how many of our own proxies append to it: the entry that many places from
+// the right was written by the outermost one, and everything to its left is
+// whatever the client sent. Untrusted requests share the 'unknown' bucket
+export function getClientIp(
+  headers: Headers,
+  platformIp?: string,
+  trustedProxyHops: number = getRateLimitConfig().trustedProxyHops
+): string {
+  if (platformIp) {
+    return platformIp
+  }
+  const forwarded = (headers.get('x-forwarded-for') ?? '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+  if (trustedProxyHops > 0 && forwarded.length >= trustedProxyHops) {
+    return forwarded[forwarded.length - trustedProxyHops]
+  }
+  return 'unknown'
+}
+
+export type RateLimitScope = 'ip' | 'user' | 'batch'
+
+// Check one dimension against its bucket; batches pay one batch and one user
+// token per item
+export async function checkRateLimit(
+  scope: RateLimitScope,
+  id: string,
+  cost: number = 1,
+  now: number = Date.now()
+): Promise<RateLimitDecision> {
+  const config = getRateLimitConfig()
+  if (!config.enabled) {
+    return { allowed: true, remaining: Number.POSITIVE_INFINITY, retryAfterMs: 0 }
+  }
+  const store = await getRateLimitStore()
+  return store.take(`${scope}:${id}`, config[scope], now, cost)
+}
+
+// Give back tokens a request took but did not use, e.g. when a later bucket
+// of the same request refused it
+export async function refundRateLimit(
+  scope: RateLimitScope,
+  id: string,
+  amount: number,
+  now: number = Date.now()
+): Promise<void> {
+  await checkRateLimit(scope, id, -amount, now)
+}
@@ -0,0 +1,42 @@
+// In-memory rate limit store
+// Per-process only: each server instance enforces its own buckets
+
+import {
+  type BucketConfig,
+  type BucketState,
+  type RateLimitDecision,
+  type RateLimitStore,
+  applyTokenBucket,
+} from './index'
+
+// Sweep idle buckets once the map grows past this size
+const SWEEP_THRESHOLD = 10000
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private buckets = new Map<string, BucketState & { config: BucketConfig }>()
+
+  async take(
+    key: string,
+    config: BucketConfig,
+    now: number,
+    cost: number = 1
+  ): Promise<RateLimitDecision> {
+    if (this.buckets.size > SWEEP_THRESHOLD) {
+      this.sweep(now)
+    }
+
+    const { state, decision } = applyTokenBucket(this.buckets.get(key), config, now, cost)
+    this.buckets.set(key, { ...state, config })
+    return decision
+  }
+
+  // Drop buckets that have refilled completely; they are equivalent to new ones
+  private sweep(now: number): void {
+    this.buckets.forEach((bucket, key) => {
+      const { state } = applyTokenBucket(bucket, bucket.config, now, 0)
+      if (state.tokens >= bucket.config.capacity) {
+        this.buckets.delete(key)
+      }
+    })
+  }
+}
@@ -0,0 +1,146 @@
+// Recovery codes: move a user key to another browser without an account.
+// The code carries the identity only: the issuance store keeps each user's
+// history by user key, so adopting the key brings the history along. It is
+// Crockford base32 in groups of four, so it survives being read aloud or
+// retyped (O/I/L are read as 0/1/1, case and dashes are ignored), and a
+// CRC-32 catches typos. The QR payload is the same bytes as `SHIPMAS:<code>`
+// in QR alphanumeric characters only.
+// Layout: [version, ...userKey (16 UUID bytes), ...crc32], 34 characters
+
+import { getUserKey, setUserKey } from './entropy'
+
+export const RECOVERY_CODE_VERSION = 1
+
+export interface RecoveryPayload {
+  userKey: string // UUID, as created by getUserKey
+}
+
+const ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ'
+const QR_PREFIX = 'SHIPMAS:'
+const GROUP_LENGTH = 4
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/
+const UUID_BYTES = 16
+const CHECKSUM_BYTES = 4
+const CODE_BYTES = 1 + UUID_BYTES + CHECKSUM_BYTES
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff
+  for (const byte of bytes) {
+    crc ^= byte
+    for (let bit = 0; bit < 8; bit++) {
+      crc = (crc >>> 1) ^ (0xedb88320 & -(crc & 1))
+    }
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+function hexToBytes(hex: string): number[] {
+  return Array.from({ length: hex.length / 2 }, (_, i) => parseInt(hex.substring(i * 2, i * 2 + 2), 16))
+}
+
+function bytesToHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('')
+}
+
+function toBase32(bytes: Uint8Array): string {
+  let out = ''
+  let buffer = 0
+  let bits = 0
+  for (const byte of bytes) {
+    buffer = ((buffer << 8) | byte) & 0xfff
+    bits += 8
+    while (bits >= 5) {
+      out += ALPHABET[(buffer >>> (bits - 5)) & 31]
+      bits -= 5
+    }
+  }
+  if (bits > 0) {
+    out += ALPHABET[(buffer << (5 - bits)) & 31]
+  }
+  return out
+}
+
+// Null on a character outside the alphabet; trailing padding bits are dropped
+function fromBase32(text: string): Uint8Array | null {
+  const bytes: number[] = []
+  let buffer = 0
+  let bits = 0
+  for (const char of text) {
+    const value = ALPHABET.indexOf(char)
+    if (value < 0) return null
+    buffer = ((buffer << 5) | value) & 0xfff
+    bits += 5
+    if (bits >= 8) {
+      bytes.push((buffer >>> (bits - 8)) & 0xff)
+      bits -= 8
+    }
+  }
+  return Uint8Array.from(bytes)
+}
+
+// Throws RangeError for a user key that is not a UUID
+function encodeBytes(payload: RecoveryPayload): Uint8Array {
+  if (!UUID_PATTERN.test(payload.userKey)) {
+    throw new RangeError('Only UUID user keys can be exported')
+  }
+  const body = Uint8Array.from([RECOVERY_CODE_VERSION, ...hexToBytes(payload.userKey.replace(/-/g, ''))])
+  const checksum = crc32(body)
+  const bytes = new Uint8Array(body.length + CHECKSUM_BYTES)
+  bytes.set(body)
+  new DataView(bytes.buffer).setUint32(body.length, checksum)
+  return bytes
+}
+
+export function encodeRecoveryCode(payload: RecoveryPayload): string {
+  const code = toBase32(encodeBytes(payload))
+  return code.match(new RegExp(`.{1,${GROUP_LENGTH}}`, 'g'))!.join('-')
+}
+
+// Plain text for a QR code (alphanumeric mode: digits, A-Z and ':')
+export function encodeRecoveryQrPayload(payload: RecoveryPayload): string {
+  return QR_PREFIX + toBase32(encodeBytes(payload))
+}
+
+// Accepts either form. Null when the text is not a recovery code, has an
+// unknown version or fails its checksum
+export function decodeRecoveryCode(text: string): RecoveryPayload | null {
+  let normalized = text.toUpperCase().replace(/[\s-]/g, '')
+  if (normalized.startsWith(QR_PREFIX)) {
+    normalized = normalized.substring(QR_PREFIX.length)
+  }
+  const bytes = fromBase32(normalized.replace(/O/g, '0').replace(/[IL]/g, '1'))
+  if (!bytes || bytes.length !== CODE_BYTES || bytes[0] !== RECOVERY_CODE_VERSION) {
+    return null
+  }
+
+  const bodyLength = bytes.length - CHECKSUM_BYTES
+  const body = bytes.subarray(0, bodyLength)
+  if (new DataView(bytes.buffer).getUint32(bodyLength) !== crc32(body)) {
+    return null
+  }
+
+  const key = bytesToHex(body.subarray(1, 1 + UUID_BYTES))
+  return {
+    userKey: `${key.substring(0, 8)}-${key.substring(8, 12)}-${key.substring(12, 16)}-${key.substring(16, 20)}-${key.substring(20)}`,
+  }
+}
+
+// Client-side: this browser's identity. Throws RangeError when the user key
+// is not a UUID
+export function exportRecovery(): { code: string; qrPayload: string } {
+  const payload = { userKey: getUserKey() }
+  return { code: encodeRecoveryCode(payload), qrPayload: encodeRecoveryQrPayload(payload) }
+}
+
+// Client-side: adopt the code's user key, so the server's issuance history
+// for it applies here too. The browser's own user key is replaced, so its
+// server history no longer applies; its seen hashes stay and keep being
+// avoided (the page says so). Returns false for an invalid code
+export function importRecovery(text: string): boolean {
+  const payload = decodeRecoveryCode(text)
+  if (!payload) {
+    return false
+  }
+  setUserKey(payload.userKey)
+  return true
+}
@@ -0,0 +1,49 @@
+// Behavior reflections (the subline under a compliment)
+// One Reflector serves every path: generated and degraded compliments, and
+// personal keys rebuilt later, so a session never gets two contradicting
+// reflections. The strategy is chosen by REFLECTION_STRATEGY:
+//   weighted (default) - drawn from the locale grammar's reflection rule,
+//                        seeded by the entropy key
+//   rules              - fixed phrase per behaviour pattern; ignores the key
+// Personal keys record the strategy they were issued with, so changing it
+// only affects new compliments
+
+import type { UserSignals } from '../entropy'
+import type { Locale } from '../locales'
+import { RuleReflector } from './rules'
+import { WeightedReflector } from './weighted'
+
+export interface ReflectionInput {
+  key: string // entropy key (SHA-256 hex) of the session
+  signals: UserSignals
+  locale: Locale
+}
+
+export interface Reflector {
+  // Pure: the same input always gives the same reflection
+  reflect(input: ReflectionInput): string
+}
+
+export type ReflectionStrategy = 'weighted' | 'rules'
+
+const REFLECTORS: Record<ReflectionStrategy, Reflector> = {
+  weighted: new WeightedReflector(),
+  rules: new RuleReflector(),
+}
+
+export function isReflectionStrategy(value: unknown): value is ReflectionStrategy {
+  return typeof value === 'string' && Object.hasOwn(REFLECTORS, value)
+}
+
+// The configured strategy; throws on an unknown REFLECTION_STRATEGY
+export function getReflectionStrategy(): ReflectionStrategy {
+  const strategy = process.env.REFLECTION_STRATEGY || 'weighted'
+  if (!isReflectionStrategy(strategy)) {
+    throw new Error(`Unknown REFLECTION_STRATEGY: ${strategy}`)
+  }
+  return strategy
+}
+
+export function getReflector(strategy: ReflectionStrategy = getReflectionStrategy()): Reflector {
+  return REFLECTORS[strategy]
+}
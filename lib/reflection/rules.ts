@@ -1,17 +1,27 @@
-// Generate behavior reflection text based on user signals
+// Rule-based reflection: a fixed phrase per behaviour pattern
 // Never explains the algorithm - only reflects how the gift was opened
+// Phrases come from the locale's messages.json (behaviorReflection section)
 
-export function generateBehaviorReflection(signals: {
-  pixelsMoved: number
-  clicks: number
-  idleMs: number
-}): string {
+import type { UserSignals } from '../entropy'
+import { type Messages, getMessages } from '../locales'
+import { SIGNAL_SCALES } from '../complimentGenerator'
+import type { ReflectionInput, Reflector } from './index'
+
+type ReflectionId = keyof Messages['behaviorReflection']
+
+export class RuleReflector implements Reflector {
+  reflect({ signals, locale }: ReflectionInput): string {
+    return getMessages(locale).behaviorReflection[pickReflection(signals)]
+  }
+}
+
+function pickReflection(signals: UserSignals): ReflectionId {
   const { pixelsMoved, clicks, idleMs } = signals
 
-  // Normalize values for decision making
-  const movementLevel = pixelsMoved / 5000 // ~5k = high movement
-  const clickLevel = clicks / 10 // ~10 clicks = high clicks
-  const idleLevel = idleMs / 5000 // ~5s = high idle
+  // Normalize values for decision making (1 = a lot, on the generator's scales)
+  const movementLevel = pixelsMoved / SIGNAL_SCALES.pixelsMoved
+  const clickLevel = clicks / SIGNAL_SCALES.clicks
+  const idleLevel = idleMs / SIGNAL_SCALES.idleMs
 
   // Determine primary behavior pattern
   const patterns: string[] = []
@@ -45,41 +55,41 @@ export function generateBehaviorReflection(signals: {
 
   // Generate reflection based on combination
   if (patterns.includes('still') && patterns.includes('patient')) {
-    return 'Opened with stillness.'
+    return 'stillness'
   }
   if (patterns.includes('explored') && patterns.includes('eager')) {
-    return 'Unwrapped with curiosity.'
+    return 'curiosity'
   }
   if (patterns.includes('slowly') && patterns.includes('carefully')) {
-    return 'Wrapped slowly.'
+    return 'wrappedSlowly'
   }
   if (patterns.includes('quickly') && patterns.includes('eager')) {
-    return 'Opened all at once.'
+    return 'allAtOnce'
   }
   if (patterns.includes('wandered') && patterns.includes('curious')) {
-    return 'Unwrapped with wonder.'
+    return 'wonder'
   }
   if (patterns.includes('patient') && !patterns.includes('eager')) {
-    return 'You did not rush this.'
+    return 'didNotRush'
   }
   if (patterns.includes('still') && patterns.includes('carefully')) {
-    return 'Opened with intention.'
+    return 'intention'
   }
   if (patterns.includes('explored') && patterns.includes('slowly')) {
-    return 'Unwrapped gradually.'
+    return 'gradually'
   }
 
   // Default fallbacks
   if (idleLevel > movementLevel && idleLevel > clickLevel) {
-    return 'Opened with patience.'
+    return 'patience'
   }
   if (clickLevel > movementLevel && clickLevel > idleLevel) {
-    return 'Unwrapped with anticipation.'
+    return 'anticipation'
   }
   if (movementLevel > clickLevel && movementLevel > idleLevel) {
-    return 'Opened while moving.'
+    return 'whileMoving'
   }
 
-  return 'Opened just now.'
+  return 'justNow'
 }
 
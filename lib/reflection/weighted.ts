@@ -0,0 +1,18 @@
+// Weighted reflection: one draw from the locale grammar's {reflection} rule,
+// weighted by the style vector and seeded by the entropy key
+
+import { hashToSeed } from '../entropy'
+import { createPrng } from '../prng'
+import { expandTemplate } from '../grammar'
+import { computeStyleVector, getGrammar, normalizeSignals } from '../complimentGenerator'
+import type { ReflectionInput, Reflector } from './index'
+
+export class WeightedReflector implements Reflector {
+  reflect({ key, signals, locale }: ReflectionInput): string {
+    const rng = createPrng(hashToSeed(key))
+    const style = computeStyleVector(
+      normalizeSignals(signals.pixelsMoved, signals.clicks, signals.idleMs)
+    )
+    return expandTemplate(getGrammar(locale), '{reflection}', style, rng).text
+  }
+}
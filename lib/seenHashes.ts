@@ -0,0 +1,130 @@
+// Client-side seen set: the hash of every compliment this browser has shown,
+// kept in IndexedDB with no cap. It is read once per page load into memory,
+// and requests carry it as a Bloom filter (avoidFilter, see lib/bloomFilter)
+// rather than a list. Hashes from the old localStorage list are moved over
+// on first use. Where IndexedDB is unavailable (some private browsing modes)
+// the set lives in memory and the old list is left in place
+
+import { BloomFilter, MAX_BLOOM_FILL_RATIO } from './bloomFilter'
+
+const DB_NAME = 'shipmas'
+const DB_VERSION = 1
+const STORE_NAME = 'seenHashes' // key: compliment hash, value: first seen (ms)
+const LEGACY_STORAGE_KEY = 'shipmas_seen_hashes'
+const HEX_HASH_PATTERN = /^[0-9a-f]{64}$/
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+// Resolves null instead of rejecting: a missing database only loses persistence
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.resolve(null)
+  }
+  return new Promise((resolve) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME)
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => resolve(null)
+    request.onblocked = () => resolve(null)
+  })
+}
+
+function readLegacyHashes(): string[] {
+  try {
+    const stored = localStorage.getItem(LEGACY_STORAGE_KEY)
+    const parsed: unknown = stored ? JSON.parse(stored) : []
+    return Array.isArray(parsed) ? parsed.filter((hash) => HEX_HASH_PATTERN.test(hash)) : []
+  } catch {
+    return []
+  }
+}
+
+function writeHashes(db: IDBDatabase, hashes: string[]): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, 'readwrite')
+    const store = transaction.objectStore(STORE_NAME)
+    const seenAt = Date.now()
+    hashes.forEach((hash) => store.put(seenAt, hash))
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+  })
+}
+
+async function loadSeen(db: IDBDatabase | null): Promise<Set<string>> {
+  const hashes = new Set<string>()
+  if (db) {
+    try {
+      const keys = await promisify(db.transaction(STORE_NAME).objectStore(STORE_NAME).getAllKeys())
+      keys.forEach((key) => hashes.add(String(key)))
+    } catch {
+      // Unreadable store: start empty, new hashes are still written
+    }
+  }
+
+  const legacy = readLegacyHashes()
+  legacy.forEach((hash) => hashes.add(hash))
+  if (db && legacy.length > 0) {
+    try {
+      await writeHashes(db, legacy)
+      localStorage.removeItem(LEGACY_STORAGE_KEY)
+    } catch {
+      // Keep the old list; the move is retried on the next page load
+    }
+  }
+  return hashes
+}
+
+// One database connection and one in-memory copy per page
+let state: Promise<{ db: IDBDatabase | null; hashes: Set<string> }> | null = null
+
+function getState() {
+  state ??= openDatabase().then(async (db) => ({ db, hashes: await loadSeen(db) }))
+  return state
+}
+
+export async function getSeenComplimentHashes(): Promise<string[]> {
+  if (typeof window === 'undefined') {
+    return []
+  }
+  return Array.from((await getState()).hashes)
+}
+
+export async function addSeenComplimentHash(hash: string): Promise<void> {
+  if (typeof window === 'undefined') {
+    return
+  }
+
+  const { db, hashes } = await getState()
+  if (!HEX_HASH_PATTERN.test(hash) || hashes.has(hash)) {
+    return
+  }
+  hashes.add(hash)
+  if (db) {
+    await writeHashes(db, [hash]).catch(() => undefined)
+  }
+}
+
+// avoidFilter payload: a Bloom filter of every seen hash, sized for the
+// current count. Undefined until something has been seen, and once the
+// filter would be saturated (the issuance store still avoids repeats)
+export async function getAvoidFilter(): Promise<string | undefined> {
+  if (typeof window === 'undefined') {
+    return undefined
+  }
+
+  const { hashes } = await getState()
+  if (hashes.size === 0) {
+    return undefined
+  }
+  const filter = BloomFilter.forCapacity(hashes.size)
+  hashes.forEach((hash) => filter.add(hash))
+  // Only past several hundred thousand hashes; the routes would reject it
+  return filter.fillRatio > MAX_BLOOM_FILL_RATIO ? undefined : filter.toBase64()
+}
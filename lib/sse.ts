@@ -0,0 +1,48 @@
+// Minimal Server-Sent Events helpers
+// Encoding runs in the route; parsing runs in the browser over a fetch body
+// (EventSource cannot POST), so this module has no Node dependencies
+
+export interface SseEvent {
+  event: string
+  data: string
+}
+
+// Encode one event; data is JSON-serialized onto a single line
+export function encodeSseEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`
+}
+
+// Read an SSE response body, calling onEvent for each complete event
+export async function readSseStream(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: SseEvent) => void
+): Promise<void> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    buffer += decoder.decode(value, { stream: true })
+
+    // Events are separated by a blank line
+    let boundary = buffer.indexOf('\n\n')
+    while (boundary !== -1) {
+      const block = buffer.substring(0, boundary)
+      buffer = buffer.substring(boundary + 2)
+
+      let event = 'message'
+      const data: string[] = []
+      for (const line of block.split('\n')) {
+        if (line.startsWith('event:')) event = line.substring(6).trim()
+        else if (line.startsWith('data:')) data.push(line.substring(5).trimStart())
+      }
+      if (data.length > 0) {
+        onEvent({ event, data: data.join('\n') })
+      }
+
+      boundary = buffer.indexOf('\n\n')
+    }
+  }
+}
@@ -0,0 +1,109 @@
+// Stylistic transformer for composed compliments
+// Reshapes the rhythm of the text by the style vector:
+//   high tempo    - filler cut from clauses, the evidence split into fragment sentences
+//   high softness - gentler connectors, a trailing ellipsis, a line break before the closer
+// Phrases come from each locale's stylize.json. Every decision is one draw
+// from the caller's PRNG (after grammar expansion), in order, so the
+// same key always gives the same text. Fragments are rewritten in place of
+// each other, so they still concatenate to the full text
+
+import type { Prng } from './prng'
+import { type StyleVector, GrammarError } from './grammar'
+import type { ComplimentFragment } from './complimentGenerator'
+
+export interface StylizeTable {
+  cuts: string[] // filler dropped under high tempo (" kind of")
+  breaks: string[] // clause boundaries in the evidence that become a sentence break
+  connectors: Record<string, string> // evidence phrases swapped for a gentler one
+}
+
+// Style value where the transforms start; their chance rises linearly to 1
+const THRESHOLD = 0.6
+
+function intensity(value: number): number {
+  return Math.max(0, (value - THRESHOLD) / (1 - THRESHOLD))
+}
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string' && item !== '')
+}
+
+// Validate a locale's stylize.json; throws GrammarError so a bad edit fails at startup
+export function parseStylizeTable(input: unknown): StylizeTable {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    throw new GrammarError('stylize table must be an object')
+  }
+  const { cuts, breaks, connectors } = input as Record<string, unknown>
+  if (!isStringList(cuts) || !isStringList(breaks)) {
+    throw new GrammarError('stylize cuts and breaks must be lists of non-empty strings')
+  }
+  if (
+    typeof connectors !== 'object' ||
+    connectors === null ||
+    !isStringList(Object.keys(connectors)) ||
+    !isStringList(Object.values(connectors))
+  ) {
+    throw new GrammarError('stylize connectors must map phrases to phrases')
+  }
+  return { cuts, breaks, connectors: connectors as Record<string, string> }
+}
+
+function capitalizeFirst(text: string): string {
+  return text.replace(/\p{L}/u, (letter) => letter.toLocaleUpperCase())
+}
+
+// Replace each occurrence of `from` with `to` with chance `p` (one draw per occurrence)
+function replaceSome(text: string, from: string, to: string, p: number, rng: Prng): string {
+  const [head, ...rest] = text.split(from)
+  return rest.reduce((out, part) => out + (rng.nextDouble() < p ? to : from) + part, head)
+}
+
+// Start a new sentence at each `boundary` with chance `p`. Its words open the
+// new sentence (" until " gives ". Until "); punctuation is dropped (", " gives ". ")
+function splitSentences(text: string, boundary: string, p: number, rng: Prng): string {
+  const words = boundary.replace(/^[\s,;]+/, '')
+  const [head, ...rest] = text.split(boundary)
+  return rest.reduce(
+    (out, part) =>
+      rng.nextDouble() < p ? `${out}. ${capitalizeFirst(words + part)}` : out + boundary + part,
+    head
+  )
+}
+
+export function stylizeFragments(
+  fragments: ComplimentFragment[],
+  style: StyleVector,
+  table: StylizeTable,
+  rng: Prng
+): ComplimentFragment[] {
+  const tempo = intensity(style.tempo)
+  const softness = intensity(style.softness)
+
+  return fragments.map(({ slot, text }) => {
+    if (tempo > 0) {
+      // Shorter clauses, then fragment sentences ("You explore. Until you find the shape.")
+      for (const cut of table.cuts) text = replaceSome(text, cut, '', tempo, rng)
+      if (slot === 'evidence') {
+        for (const boundary of table.breaks) {
+          text = splitSentences(text, boundary, tempo, rng)
+        }
+      }
+    }
+
+    if (softness > 0) {
+      if (slot === 'evidence') {
+        for (const [from, to] of Object.entries(table.connectors)) {
+          text = replaceSome(text, from, to, softness, rng)
+        }
+        // Let the evidence trail off instead of stopping
+        if (text.endsWith('.') && rng.nextDouble() < softness) text = `${text.slice(0, -1)}…`
+      }
+      // Give the closer a line of its own
+      if (slot === 'closer' && text.startsWith(' ') && rng.nextDouble() < softness) {
+        text = `\n${text.slice(1)}`
+      }
+    }
+
+    return { slot, text }
+  })
+}
@@ -0,0 +1,13 @@
+// Tone profiles
+// A tone swaps in its own templates and style weights on top of a locale's
+// grammar (lib/locales/<locale>/tones.json); `classic` is the grammar as is.
+// The style vector still drives selection inside the chosen tone.
+// Client-safe: the page uses these for the tone picker
+
+export const TONES = ['classic', 'professional', 'playful', 'poetic'] as const
+export type Tone = (typeof TONES)[number]
+export const DEFAULT_TONE: Tone = 'classic'
+
+export function isTone(value: unknown): value is Tone {
+  return (TONES as readonly unknown[]).includes(value)
+}
@@ -0,0 +1,305 @@
+// Corpus analysis CLI: size of the compliment space and grammar clashes
+//
+//   npm run analyze:corpus -- [--locale en] [--tone playful] [--window 200] [--sample 20000]
+//
+// For each locale and tone it reports, per signal profile, the Shannon entropy of a
+// generated compliment and the chance that a new one repeats one of the last
+// `--window` the client sends as avoidHashes. The numbers are computed from
+// the grammar weights; they assume different picks give different text and
+// treat the rarity tiers as disjoint. `--sample` also composes that many
+// compliments through the real generator and counts what actually repeated.
+//
+// The clash check flags openers that cannot form a sentence with some trait
+// (see OBJECT_TAKING), one line per opener. Exits 1 when any is flagged
+
+import crypto from 'crypto'
+import { createPrng } from '../lib/prng'
+import {
+  type Grammar,
+  type StyleVector,
+  expandTemplate,
+  ruleDistribution,
+  templateReferences,
+} from '../lib/grammar'
+import {
+  composeCompliment,
+  computeStyleVector,
+  getGrammar,
+  normalizeSignals,
+} from '../lib/complimentGenerator'
+import { type DropRates, type Rarity, getDropRates } from '../lib/rarity'
+import { type Locale, SUPPORTED_LOCALES, isLocale } from '../lib/locales'
+import { type Tone, TONES, isTone } from '../lib/tones'
+
+// Default repeat-rate window. The page now avoids every seen hash (avoidFilter),
+// so this measures early regenerations rather than a cap
+const DEFAULT_WINDOW = 200
+
+const TIERS: Rarity[] = [1, 2, 3]
+
+// Space sizes do not depend on the style; this one is only used for counting
+const NEUTRAL_STYLE: StyleVector = { tempo: 0.5, softness: 0.5, spark: 0.5 }
+
+// Typical behaviour during the loading phase
+const PROFILES: { name: string; pixelsMoved: number; clicks: number; idleMs: number }[] = [
+  { name: 'still', pixelsMoved: 200, clicks: 0, idleMs: 9000 },
+  { name: 'explorer', pixelsMoved: 18000, clicks: 2, idleMs: 800 },
+  { name: 'decisive', pixelsMoved: 2500, clicks: 25, idleMs: 600 },
+  { name: 'balanced', pixelsMoved: 4000, clicks: 6, idleMs: 3500 },
+]
+
+// Last words of an opener that a noun phrase can follow ("You have | a steady
+// presence"). An opener ending in anything else is flagged with every trait,
+// so new openers need their final word added here once checked by hand
+const OBJECT_TAKING: Record<Locale, string[]> = {
+  en: ['have', 'bring', 'hold', 'carry', 'show', 'offer', 'create', 'notice', 'got', 'with', 'bear', 'you'],
+  es: ['tienes', 'traes', 'contigo', 'muestras', 'ofreces', 'irradias', 'ti', 'aportas', 'guardas', 'sostienes'],
+  fr: ['avez', 'apportez', 'portez', 'montrez', 'offrez', 'dégagez', 'vous', 'affichez', 'gardez', 'abritez'],
+}
+
+// Words that already determine the noun, so a trait starting with an article
+// cannot follow ("There's something | a steady presence")
+const DETERMINERS: Record<Locale, string[]> = {
+  en: ['a', 'an', 'the', 'something', 'some'],
+  es: ['un', 'una', 'el', 'la', 'algo'],
+  fr: ['un', 'une', 'le', 'la', 'quelque'],
+}
+
+// Space statistics for one template at one style and tier
+interface SpaceStats {
+  count: number // distinct pick sequences
+  entropy: number // Shannon entropy in bits
+  collision: number // chance two independent draws pick the same sequence
+}
+
+function templateStats(grammar: Grammar, template: string, style: StyleVector, tier: Rarity): SpaceStats {
+  // References are drawn independently, so the stats multiply (or add, for entropy)
+  return templateReferences(template).reduce(
+    (stats, name) => {
+      const rule = ruleStats(grammar, name, style, tier)
+      return {
+        count: stats.count * rule.count,
+        entropy: stats.entropy + rule.entropy,
+        collision: stats.collision * rule.collision,
+      }
+    },
+    { count: 1, entropy: 0, collision: 1 }
+  )
+}
+
+function ruleStats(grammar: Grammar, name: string, style: StyleVector, tier: Rarity): SpaceStats {
+  return ruleDistribution(grammar, name, style, tier).reduce(
+    (stats, { entry, probability }) => {
+      const nested = templateStats(grammar, entry.text, style, tier)
+      return {
+        count: stats.count + nested.count,
+        entropy: stats.entropy - probability * Math.log2(probability) + probability * nested.entropy,
+        collision: stats.collision + probability * probability * nested.collision,
+      }
+    },
+    { count: 0, entropy: 0, collision: 0 }
+  )
+}
+
+function complimentStats(grammar: Grammar, style: StyleVector, tier: Rarity): SpaceStats {
+  return templateStats(grammar, grammar.compliment.map((f) => f.template).join(''), style, tier)
+}
+
+// Mix the per-tier stats by the drop rates
+function mixTiers(perTier: Record<Rarity, SpaceStats>, dropRates: DropRates): SpaceStats {
+  const total = TIERS.reduce((sum, tier) => sum + dropRates[tier], 0)
+  return TIERS.reduce(
+    (stats, tier) => {
+      const p = dropRates[tier] / total
+      if (p === 0) return stats
+      return {
+        count: stats.count + perTier[tier].count,
+        entropy: stats.entropy - p * Math.log2(p) + p * perTier[tier].entropy,
+        collision: stats.collision + p * p * perTier[tier].collision,
+      }
+    },
+    { count: 0, entropy: 0, collision: 0 }
+  )
+}
+
+// Chance a new compliment matches one of the previous `window`
+function windowCollisionRate(collision: number, window: number): number {
+  return 1 - Math.pow(1 - collision, window)
+}
+
+function formatRate(rate: number): string {
+  if (rate === 0) return '0'
+  return rate >= 0.001 ? `${(rate * 100).toFixed(2)}%` : rate.toExponential(2)
+}
+
+function firstWord(text: string): string {
+  return text.trim().split(/\s+/)[0].toLowerCase()
+}
+
+function lastWord(text: string): string {
+  const words = text.trim().split(/\s+/)
+  return words[words.length - 1].toLowerCase()
+}
+
+// Every entry (any tier) of the rules a slot's template references
+function slotEntries(grammar: Grammar, slot: string): string[] {
+  const fragment = grammar.compliment.find((f) => f.slot === slot)
+  if (!fragment) return []
+  return templateReferences(fragment.template).flatMap((name) =>
+    grammar.rules[name].entries.map((entry) => entry.text)
+  )
+}
+
+// One flagged opener: the traits it clashes with and the first as an example
+interface Clash {
+  opener: string
+  reason: string
+  traits: string[]
+}
+
+function findClashes(grammar: Grammar, locale: Locale): Clash[] {
+  const traits = slotEntries(grammar, 'trait')
+  const clashes: Clash[] = []
+
+  for (const opener of slotEntries(grammar, 'opener')) {
+    const last = lastWord(opener)
+    if (DETERMINERS[locale].includes(last)) {
+      // Agreement tokens such as <a> are articles
+      const clashing = traits.filter((trait) => {
+        const first = firstWord(trait)
+        return /^<\w+>$/.test(first) || DETERMINERS[locale].includes(first)
+      })
+      if (clashing.length > 0) {
+        clashes.push({ opener, reason: `"${last}" is followed by a second determiner`, traits: clashing })
+      }
+    } else if (!OBJECT_TAKING[locale].includes(last)) {
+      clashes.push({ opener, reason: `"${last}" is not known to take a trait as its object`, traits })
+    }
+  }
+  return clashes
+}
+
+// Compose `size` compliments with pseudo-random keys and signals and count
+// exact repeats, overall and within the sliding avoidHashes window
+function sampleGrammar(locale: Locale, tone: Tone, size: number, window: number) {
+  const rng = createPrng(0x5eedn)
+  const seen = new Set<string>()
+  const recent: string[] = []
+  let windowRepeats = 0
+
+  for (let n = 0; n < size; n++) {
+    const key = crypto.createHash('sha256').update(`sample:${n}`).digest('hex')
+    const { text } = composeCompliment(
+      key,
+      rng.nextDouble() * 20000,
+      rng.nextInt(40),
+      rng.nextDouble() * 15000,
+      locale,
+      tone
+    )
+    if (recent.includes(text)) windowRepeats++
+    recent.push(text)
+    if (recent.length > window) recent.shift()
+    seen.add(text)
+  }
+  return { distinct: seen.size, windowRepeats }
+}
+
+function parseArgs(argv: string[]) {
+  const options = {
+    locales: [...SUPPORTED_LOCALES] as Locale[],
+    tones: [...TONES] as Tone[],
+    window: DEFAULT_WINDOW,
+    sample: 0,
+  }
+  for (let i = 0; i < argv.length; i++) {
+    const value = argv[i + 1]
+    switch (argv[i]) {
+      case '--locale':
+        if (!isLocale(value)) throw new Error(`--locale must be one of ${SUPPORTED_LOCALES.join(', ')}`)
+        options.locales = [value]
+        i++
+        break
+      case '--tone':
+        if (!isTone(value)) throw new Error(`--tone must be one of ${TONES.join(', ')}`)
+        options.tones = [value]
+        i++
+        break
+      case '--window':
+      case '--sample': {
+        const n = Number(value)
+        if (!Number.isInteger(n) || n < 0) throw new Error(`${argv[i]} needs a non-negative integer`)
+        options[argv[i] === '--window' ? 'window' : 'sample'] = n
+        i++
+        break
+      }
+      default:
+        throw new Error(`Unknown argument ${argv[i]}`)
+    }
+  }
+  return options
+}
+
+function main() {
+  const options = parseArgs(process.argv.slice(2))
+  const dropRates = getDropRates()
+  let clashCount = 0
+
+  for (const locale of options.locales) {
+    for (const tone of options.tones) {
+      const grammar = getGrammar(locale, tone)
+      console.log(`\n== ${locale} / ${tone} ==`)
+
+      const perTier = {} as Record<Rarity, SpaceStats>
+      for (const tier of TIERS) {
+        perTier[tier] = complimentStats(grammar, NEUTRAL_STYLE, tier)
+      }
+      const space = mixTiers(perTier, dropRates)
+      console.log(
+        `Space: ${space.count.toLocaleString('en')} compliments ` +
+          `(common ${perTier[1].count.toLocaleString('en')}, uncommon ${perTier[2].count.toLocaleString('en')}, ` +
+          `rare ${perTier[3].count.toLocaleString('en')}), at most ${Math.log2(space.count).toFixed(2)} bits`
+      )
+
+      console.log(`\nProfile     entropy  repeat in last ${options.window}`)
+      for (const profile of PROFILES) {
+        const style = computeStyleVector(
+          normalizeSignals(profile.pixelsMoved, profile.clicks, profile.idleMs)
+        )
+        const byTier = {} as Record<Rarity, SpaceStats>
+        for (const tier of TIERS) byTier[tier] = complimentStats(grammar, style, tier)
+        const mixed = mixTiers(byTier, dropRates)
+        console.log(
+          `${profile.name.padEnd(11)} ${mixed.entropy.toFixed(2).padStart(5)} bits  ` +
+            formatRate(windowCollisionRate(mixed.collision, options.window))
+        )
+      }
+
+      if (options.sample > 0) {
+        const sample = sampleGrammar(locale, tone, options.sample, options.window)
+        console.log(
+          `\nSample of ${options.sample}: ${sample.distinct} distinct, ` +
+            `${sample.windowRepeats} repeated within the last ${options.window}`
+        )
+      }
+
+      const clashes = findClashes(grammar, locale)
+      clashCount += clashes.length
+      const pairs = clashes.reduce((sum, clash) => sum + clash.traits.length, 0)
+      console.log(
+        `\nClashes: ${clashes.length} opener${clashes.length === 1 ? '' : 's'} (${pairs} opener/trait pairs)`
+      )
+
+      // One line per opener, with an example sentence
+      const rng = createPrng(0n) // expanding plain text draws nothing
+      for (const { opener, reason, traits } of clashes) {
+        const example = expandTemplate(grammar, `${opener} ${traits[0]}.`, NEUTRAL_STYLE, rng).text
+        console.log(`  ${opener}: ${reason} (${traits.length} traits), e.g. "${example}"`)
+      }
+    }
+  }
+
+  process.exitCode = clashCount > 0 ? 1 : 0
+}
+
+main()
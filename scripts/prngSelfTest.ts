@@ -0,0 +1,203 @@
+// PRNG self-test: reference outputs and uniformity of every algorithm in lib/prng
+//
+//   npm run check:prng -- [--algorithm pcg32] [--samples 100000] [--seed 24301]
+//
+// First each algorithm's raw output is compared with its published reference
+// values. Then, per algorithm, `--samples` draws are binned and checked with
+// a chi-square test:
+//   double       - nextDouble() in 100 equal bins (and every draw in [0, 1))
+//   int/k        - nextInt(k) for several k; a skew toward one end shows here
+//   bits         - each of the 32 bits of nextUint32() set half the time
+//   pairs        - consecutive nextInt(10) draws over the 100 pairs
+// The p-value uses the Wilson-Hilferty approximation of the chi-square tail.
+// Exits 1 when a reference value differs or any p-value is below ALPHA
+
+import {
+  type PrngAlgorithm,
+  PRNG_ALGORITHMS,
+  Pcg32,
+  SplitMix64,
+  Xoshiro256StarStar,
+  createPrng,
+  isPrngAlgorithm,
+} from '../lib/prng'
+
+const ALPHA = 0.001
+const DEFAULT_SAMPLES = 100_000
+const DEFAULT_SEED = 0x5eedn
+const INT_RANGES = [3, 7, 10, 37, 1000]
+
+// First outputs from the authors' reference implementations
+const REFERENCE: Record<PrngAlgorithm, { source: string; expected: bigint[]; actual: () => bigint[] }> = {
+  splitmix64: {
+    source: 'seed 0',
+    expected: [0xe220a8397b1dcdafn, 0x6e789e6aa1b965f4n, 0x06c45d188009454fn],
+    actual: () => {
+      const rng = new SplitMix64(0n)
+      return [rng.nextUint64(), rng.nextUint64(), rng.nextUint64()]
+    },
+  },
+  xoshiro256starstar: {
+    source: 'state [1, 2, 3, 4]',
+    expected: [11520n, 0n, 1509978240n, 1215971899390074240n],
+    actual: () => {
+      const rng = Xoshiro256StarStar.fromState([1n, 2n, 3n, 4n])
+      return [rng.nextUint64(), rng.nextUint64(), rng.nextUint64(), rng.nextUint64()]
+    },
+  },
+  pcg32: {
+    source: 'seed 42, sequence 54',
+    expected: [0xa15c02b7n, 0x7b47f409n, 0xba1d3330n, 0x83d2f293n, 0xbfa4784bn, 0xcbed606en],
+    actual: () => {
+      const rng = new Pcg32(42n, 54n)
+      return Array.from({ length: 6 }, () => BigInt(rng.nextUint32()))
+    },
+  },
+}
+
+interface TestResult {
+  name: string
+  statistic: number
+  df: number
+  p: number
+  note?: string
+}
+
+// Standard normal upper tail, Abramowitz and Stegun 26.2.17 (error < 7.5e-8)
+function normalUpperTail(z: number): number {
+  if (z < 0) return 1 - normalUpperTail(-z)
+  const t = 1 / (1 + 0.2316419 * z)
+  const poly =
+    t * (0.31938153 + t * (-0.356563782 + t * (1.781477937 + t * (-1.821255978 + t * 1.330274429))))
+  return (Math.exp((-z * z) / 2) / Math.sqrt(2 * Math.PI)) * poly
+}
+
+// P(X >= statistic) for a chi-square variable with df degrees of freedom
+function chiSquareP(statistic: number, df: number): number {
+  const v = 2 / (9 * df)
+  const z = (Math.cbrt(statistic / df) - (1 - v)) / Math.sqrt(v)
+  return normalUpperTail(z)
+}
+
+function chiSquare(name: string, counts: number[], note?: string): TestResult {
+  const total = counts.reduce((sum, count) => sum + count, 0)
+  const expected = total / counts.length
+  const statistic = counts.reduce((sum, count) => sum + (count - expected) ** 2 / expected, 0)
+  const df = counts.length - 1
+  return { name, statistic, df, p: chiSquareP(statistic, df), note }
+}
+
+function runUniformity(algorithm: PrngAlgorithm, seed: bigint, samples: number): TestResult[] {
+  const results: TestResult[] = []
+
+  const rng = createPrng(seed, algorithm)
+  const bins = new Array<number>(100).fill(0)
+  let outOfRange = 0
+  for (let n = 0; n < samples; n++) {
+    const x = rng.nextDouble()
+    if (!(x >= 0 && x < 1)) {
+      outOfRange++
+      continue
+    }
+    bins[Math.floor(x * bins.length)]++
+  }
+  const double = chiSquare('double', bins)
+  results.push(outOfRange > 0 ? { ...double, p: 0, note: `${outOfRange} draws outside [0, 1)` } : double)
+
+  for (const k of INT_RANGES) {
+    const intRng = createPrng(seed, algorithm)
+    const counts = new Array<number>(k).fill(0)
+    for (let n = 0; n < samples; n++) counts[intRng.nextInt(k)]++
+    const lastShare = counts[k - 1] / samples
+    results.push(chiSquare(`int/${k}`, counts, `last ${(lastShare * k).toFixed(3)}x fair`))
+  }
+
+  // Each bit is a fair coin; the squared deviations of the 32 bits add up to
+  // a chi-square with 32 degrees of freedom
+  const bitRng = createPrng(seed, algorithm)
+  const ones = new Array<number>(32).fill(0)
+  for (let n = 0; n < samples; n++) {
+    const x = bitRng.nextUint32()
+    for (let bit = 0; bit < 32; bit++) ones[bit] += (x >>> bit) & 1
+  }
+  const bitStatistic = ones.reduce((sum, count) => sum + (2 * count - samples) ** 2 / samples, 0)
+  results.push({ name: 'bits', statistic: bitStatistic, df: 32, p: chiSquareP(bitStatistic, 32) })
+
+  const pairRng = createPrng(seed, algorithm)
+  const pairs = new Array<number>(100).fill(0)
+  for (let n = 0; n < samples; n++) pairs[pairRng.nextInt(10) * 10 + pairRng.nextInt(10)]++
+  results.push(chiSquare('pairs', pairs))
+
+  return results
+}
+
+function parseArgs(argv: string[]) {
+  const options = {
+    algorithms: [...PRNG_ALGORITHMS] as PrngAlgorithm[],
+    samples: DEFAULT_SAMPLES,
+    seed: DEFAULT_SEED,
+  }
+  for (let i = 0; i < argv.length; i++) {
+    const value = argv[i + 1]
+    switch (argv[i]) {
+      case '--algorithm':
+        if (!isPrngAlgorithm(value)) {
+          throw new Error(`--algorithm must be one of ${PRNG_ALGORITHMS.join(', ')}`)
+        }
+        options.algorithms = [value]
+        i++
+        break
+      case '--samples': {
+        const n = Number(value)
+        // Below ~10 expected draws per bin (int/1000) the chi-square approximation breaks down
+        if (!Number.isInteger(n) || n < 10000) throw new Error('--samples needs an integer of at least 10000')
+        options.samples = n
+        i++
+        break
+      }
+      case '--seed':
+        if (!/^\d+$/.test(value ?? '')) throw new Error('--seed needs a non-negative integer')
+        options.seed = BigInt(value)
+        i++
+        break
+      default:
+        throw new Error(`Unknown argument ${argv[i]}`)
+    }
+  }
+  return options
+}
+
+function main() {
+  const options = parseArgs(process.argv.slice(2))
+  let failures = 0
+
+  for (const algorithm of options.algorithms) {
+    console.log(`\n=== ${algorithm} ===`)
+
+    const reference = REFERENCE[algorithm]
+    const actual = reference.actual()
+    const matches = actual.every((value, i) => value === reference.expected[i])
+    if (!matches) failures++
+    console.log(
+      `reference (${reference.source}): ${matches ? 'ok' : 'MISMATCH'}` +
+        (matches ? '' : `\n  expected ${reference.expected.join(', ')}\n  got      ${actual.join(', ')}`)
+    )
+
+    console.log(`uniformity (${options.samples} draws, seed ${options.seed}):`)
+    for (const result of runUniformity(algorithm, options.seed, options.samples)) {
+      const failed = result.p < ALPHA
+      if (failed) failures++
+      console.log(
+        `  ${result.name.padEnd(8)} chi2 ${result.statistic.toFixed(1).padStart(7)} ` +
+          `df ${String(result.df).padStart(3)}  p ${result.p.toFixed(4)}` +
+          (result.note ? `  (${result.note})` : '') +
+          (failed ? '  FAIL' : '')
+      )
+    }
+  }
+
+  console.log(failures > 0 ? `\n${failures} check(s) failed` : '\nAll checks passed')
+  process.exitCode = failures > 0 ? 1 : 0
+}
+
+main()